@@ -3,18 +3,34 @@ import React, { useState } from 'react';
 import Setup from './components/Setup';
 import Practice from './components/Practice';
 import Worksheet from './components/Worksheet';
-import { DictationItem, AppState, DictationMode } from './types';
+import Report from './components/Report';
+import PhotoGrader from './components/PhotoGrader';
+import ExamMode from './components/ExamMode';
+import ProfilePicker from './components/ProfilePicker';
+import Dashboard from './components/Dashboard';
+import { DictationItem, AppState, DictationMode, ItemResult, Annotation, AudioSettings, ChildProfile, ClozeSettings } from './types';
+import { recordReviewResult } from './services/reviewScheduler';
+import { saveSession } from './services/sessionStore';
+import { defaultAnnotation } from './services/romanization';
+import { DEFAULT_AUDIO_SETTINGS } from './services/audioUtils';
+import { DEFAULT_CLOZE_SETTINGS } from './services/clozeUtils';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>({
-    view: 'setup',
+    view: 'profiles',
+    profile: null,
+    examFrom: 'practice',
     mode: 'vocab',
     audioLanguage: 'cantonese',
+    annotation: 'jyutping',
+    audio: DEFAULT_AUDIO_SETTINGS,
+    cloze: DEFAULT_CLOZE_SETTINGS,
     dictationList: [],
     currentIndex: 0,
+    results: {},
   });
 
-  const handleStart = (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', targetView: 'practice' | 'worksheet' = 'practice') => {
+  const handleStart = (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', targetView: 'practice' | 'worksheet' = 'practice', cloze?: ClozeSettings) => {
     if (items.length === 0) {
       alert("未能提取到內容，請檢查文件是否清晰。(Could not extract content, please check your files)");
       return;
@@ -25,7 +41,77 @@ const App: React.FC = () => {
       dictationList: items,
       mode: mode,
       audioLanguage: language,
-      currentIndex: 0
+      annotation: defaultAnnotation(language),
+      // Lists from the library or reviews keep the profile's difficulty
+      cloze: cloze || { ...DEFAULT_CLOZE_SETTINGS, difficulty: prev.profile ? prev.profile.difficulty : DEFAULT_CLOZE_SETTINGS.difficulty },
+      currentIndex: 0,
+      results: {},
+    }));
+  };
+
+  // Wrong answers are scheduled for review across sessions
+  const scheduleReview = (result: ItemResult) => {
+    const item = appState.dictationList.find(i => i.id === result.itemId);
+    if (!item || !appState.profile) return;
+    recordReviewResult(appState.profile.id, item, appState.mode, result)
+      .catch(error => console.error("Error updating review schedule:", error));
+  };
+
+  const handleResult = (result: ItemResult) => {
+    scheduleReview(result);
+    setAppState(prev => ({
+      ...prev,
+      results: { ...prev.results, [result.itemId]: result },
+    }));
+  };
+
+  // Finished sessions are kept per profile for the child's history
+  const recordSession = (results: ItemResult[], source: 'practice' | 'photo') => {
+    if (!appState.profile || results.length === 0) return;
+    saveSession({
+      profileId: appState.profile.id,
+      mode: appState.mode,
+      audioLanguage: appState.audioLanguage,
+      items: appState.dictationList,
+      results,
+      source,
+    }).catch(error => console.error("Error saving session:", error));
+  };
+
+  const handleGraded = (results: ItemResult[]) => {
+    results.forEach(scheduleReview);
+    recordSession(results, 'photo');
+    setAppState(prev => ({
+      ...prev,
+      view: 'report',
+      results: Object.fromEntries(results.map(r => [r.itemId, r])),
+    }));
+  };
+
+  const handleFinish = () => {
+    recordSession(Object.values(appState.results), 'practice');
+    setAppState(prev => ({ ...prev, view: 'report' }));
+  };
+
+  const handleExam = () => {
+    setAppState(prev => ({ ...prev, view: 'exam', examFrom: prev.view === 'worksheet' ? 'worksheet' : 'practice' }));
+  };
+
+  const handleAnnotationChange = (annotation: Annotation) => {
+    setAppState(prev => ({ ...prev, annotation }));
+  };
+
+  const handleAudioChange = (audio: AudioSettings) => {
+    setAppState(prev => ({ ...prev, audio }));
+  };
+
+  const handleSelectProfile = (profile: ChildProfile) => {
+    setAppState(prev => ({
+      ...prev,
+      view: 'setup',
+      profile,
+      audioLanguage: profile.audioLanguage,
+      annotation: defaultAnnotation(profile.audioLanguage),
     }));
   };
 
@@ -34,13 +120,28 @@ const App: React.FC = () => {
       ...prev,
       view: 'setup',
       dictationList: [],
+      results: {},
     }));
   };
 
   return (
     <div className="min-h-screen bg-[#F0F9FF] text-slate-800 font-sans selection:bg-blue-200">
-      {appState.view === 'setup' && (
-        <Setup onStart={handleStart} />
+      {appState.view === 'profiles' && (
+        <ProfilePicker onSelect={handleSelectProfile} />
+      )}
+
+      {appState.view === 'setup' && appState.profile && (
+        <Setup
+          key={appState.profile.id}
+          profile={appState.profile}
+          onSwitchProfile={() => setAppState(prev => ({ ...prev, view: 'profiles', profile: null }))}
+          onDashboard={() => setAppState(prev => ({ ...prev, view: 'dashboard' }))}
+          onStart={handleStart}
+        />
+      )}
+
+      {appState.view === 'dashboard' && appState.profile && (
+        <Dashboard profile={appState.profile} onStart={handleStart} onBack={handleBack} />
       )}
       
       {appState.view === 'practice' && (
@@ -48,6 +149,25 @@ const App: React.FC = () => {
           items={appState.dictationList}
           mode={appState.mode}
           audioLanguage={appState.audioLanguage}
+          annotation={appState.annotation}
+          onAnnotationChange={handleAnnotationChange}
+          audio={appState.audio}
+          onAudioChange={handleAudioChange}
+          results={appState.results}
+          onResult={handleResult}
+          onFinish={handleFinish}
+          onExam={handleExam}
+          onBack={handleBack}
+        />
+      )}
+
+      {appState.view === 'report' && (
+        <Report
+          items={appState.dictationList}
+          mode={appState.mode}
+          results={appState.results}
+          onRetry={(items) => handleStart(items, appState.mode, appState.audioLanguage, 'practice')}
+          onPrint={(items) => handleStart(items, appState.mode, appState.audioLanguage, 'worksheet')}
           onBack={handleBack}
         />
       )}
@@ -56,9 +176,37 @@ const App: React.FC = () => {
         <Worksheet 
           items={appState.dictationList}
           mode={appState.mode}
+          audioLanguage={appState.audioLanguage}
+          annotation={appState.annotation}
+          onAnnotationChange={handleAnnotationChange}
+          initialCloze={appState.cloze}
+          onItemsChange={(items) => setAppState(prev => ({ ...prev, dictationList: items }))}
+          onGrade={() => setAppState(prev => ({ ...prev, view: 'grading' }))}
+          onExam={handleExam}
           onBack={handleBack}
         />
       )}
+
+      {appState.view === 'exam' && (
+        <ExamMode
+          items={appState.dictationList}
+          mode={appState.mode}
+          audioLanguage={appState.audioLanguage}
+          audio={appState.audio}
+          onAudioChange={handleAudioChange}
+          onGrade={() => setAppState(prev => ({ ...prev, view: 'grading' }))}
+          onBack={() => setAppState(prev => ({ ...prev, view: prev.examFrom }))}
+        />
+      )}
+
+      {appState.view === 'grading' && (
+        <PhotoGrader
+          items={appState.dictationList}
+          mode={appState.mode}
+          onComplete={handleGraded}
+          onBack={() => setAppState(prev => ({ ...prev, view: 'worksheet' }))}
+        />
+      )}
     </div>
   );
 };
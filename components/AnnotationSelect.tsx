@@ -0,0 +1,32 @@
+import React from 'react';
+import { Annotation } from '../types';
+import { Type } from 'lucide-react';
+
+interface AnnotationSelectProps {
+  value: Annotation;
+  onChange: (annotation: Annotation) => void;
+}
+
+const ANNOTATION_LABELS: Record<Annotation, string> = {
+  none: '不標音',
+  jyutping: '粵拼',
+  pinyin: '拼音',
+  zhuyin: '注音',
+};
+
+const AnnotationSelect: React.FC<AnnotationSelectProps> = ({ value, onChange }) => (
+  <label className="flex items-center gap-1 px-2 bg-slate-50 rounded-lg border border-slate-200 text-sm text-slate-600" title="字上標音 (Annotation)">
+    <Type className="w-4 h-4 text-slate-400" />
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as Annotation)}
+      className="py-1 bg-transparent outline-none"
+    >
+      {(Object.keys(ANNOTATION_LABELS) as Annotation[]).map(annotation => (
+        <option key={annotation} value={annotation}>{ANNOTATION_LABELS[annotation]}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default AnnotationSelect;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { ItemResult } from '../types';
+import { classifyMistakes } from '../services/mistakeClassifier';
+import MistakeTags from './MistakeTags';
+import { CheckCircle2, XCircle } from 'lucide-react';
+
+interface AnswerDiffProps {
+  result: ItemResult;
+  large?: boolean;
+}
+
+const AnswerDiff: React.FC<AnswerDiffProps> = ({ result, large = false }) => {
+  const charSize = large ? 'text-4xl w-12 h-14' : 'text-2xl w-9 h-11';
+
+  return (
+    <div className="w-full">
+      <div className={`flex items-center justify-center gap-2 mb-4 font-bold ${result.isCorrect ? 'text-green-600' : 'text-red-500'}`}>
+        {result.isCorrect ? <CheckCircle2 className="w-6 h-6" /> : <XCircle className="w-6 h-6" />}
+        {result.isCorrect ? '全對！(All correct)' : `答對 ${result.correctCount} / ${result.totalCount} 字`}
+      </div>
+
+      <div className="flex flex-wrap justify-center gap-1">
+        {result.diff.map((d, idx) => {
+          switch (d.status) {
+            case 'correct':
+              return (
+                <div key={idx} className={`${charSize} flex items-end justify-center font-bold text-green-600`}>
+                  {d.expected}
+                </div>
+              );
+            case 'wrong':
+              return (
+                <div key={idx} className={`${charSize} relative flex items-end justify-center font-bold text-red-500 bg-red-50 rounded-lg`} title={`應為「${d.expected}」`}>
+                  <span className="absolute -top-1 text-xs text-slate-500 font-medium">{d.expected}</span>
+                  <span className="line-through">{d.actual}</span>
+                </div>
+              );
+            case 'missing':
+              return (
+                <div key={idx} className={`${charSize} flex items-end justify-center font-bold text-slate-300 border-2 border-dashed border-amber-300 rounded-lg`} title="漏寫 (Missing)">
+                  {d.expected}
+                </div>
+              );
+            case 'extra':
+              return (
+                <div key={idx} className={`${charSize} flex items-end justify-center font-bold text-orange-400 line-through`} title="多寫 (Extra)">
+                  {d.actual}
+                </div>
+              );
+          }
+        })}
+      </div>
+
+      {!result.isCorrect && (
+        <div className="flex justify-center gap-4 mt-3 text-xs text-slate-400">
+          <span><span className="text-red-500 font-bold">紅色</span> 錯字</span>
+          <span><span className="text-amber-500 font-bold">虛線</span> 漏寫</span>
+          <span><span className="text-orange-400 font-bold">橙色</span> 多寫</span>
+        </div>
+      )}
+
+      {!result.isCorrect && (
+        <div className="mt-3">
+          <MistakeTags mistakes={classifyMistakes(result.diff)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerDiff;
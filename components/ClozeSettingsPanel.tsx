@@ -0,0 +1,101 @@
+import React from 'react';
+import { ClozeDifficulty, ClozeSettings, WordClass } from '../types';
+import { clozeRatio } from '../services/clozeUtils';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface ClozeSettingsPanelProps {
+  settings: ClozeSettings;
+  onChange: (settings: ClozeSettings) => void;
+  compact?: boolean; // Difficulty only, for the worksheet toolbar
+}
+
+const DIFFICULTY_LABELS: Record<ClozeDifficulty, string> = {
+  easy: '淺 (Easy)',
+  medium: '中 (Medium)',
+  hard: '深 (Hard)',
+  custom: '自訂 (Custom)',
+};
+
+const WORD_CLASS_LABELS: Record<WordClass, string> = {
+  particle: '助詞 的了嗎',
+  pronoun: '代詞 我你他',
+  connective: '連詞 和也是',
+  number: '數量詞 三隻',
+};
+
+const ClozeSettingsPanel: React.FC<ClozeSettingsPanelProps> = ({ settings, onChange, compact }) => {
+  const toggleWordClass = (wordClass: WordClass) => {
+    const keep = settings.keepWordClasses.includes(wordClass)
+      ? settings.keepWordClasses.filter(c => c !== wordClass)
+      : [...settings.keepWordClasses, wordClass];
+    onChange({ ...settings, keepWordClasses: keep });
+  };
+
+  const difficultySelect = (
+    <select
+      value={settings.difficulty}
+      onChange={(e) => onChange({ ...settings, difficulty: e.target.value as ClozeDifficulty })}
+      className="px-2 py-1 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-100"
+    >
+      {(Object.keys(DIFFICULTY_LABELS) as ClozeDifficulty[]).map(difficulty => (
+        <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+      ))}
+    </select>
+  );
+
+  const ratioSlider = settings.difficulty === 'custom' && (
+    <label className="flex items-center gap-2 text-sm text-slate-600">
+      <input
+        type="range"
+        min={10}
+        max={90}
+        step={5}
+        value={Math.round(settings.customRatio * 100)}
+        onChange={(e) => onChange({ ...settings, customRatio: Number(e.target.value) / 100 })}
+        className="w-24 accent-blue-600"
+      />
+      <span className="w-10 text-right">{Math.round(clozeRatio(settings) * 100)}%</span>
+    </label>
+  );
+
+  if (compact) {
+    return (
+      <div className="flex items-center gap-2">
+        {difficultySelect}
+        {ratioSlider}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-4 px-3 py-2 border border-slate-200 rounded-xl space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <SlidersHorizontal className="w-4 h-4 text-slate-400" />
+        <span className="text-sm font-bold text-slate-600">填充難度</span>
+        {difficultySelect}
+        {ratioSlider}
+        {settings.difficulty !== 'custom' && (
+          <span className="text-xs text-slate-400">約 {Math.round(clozeRatio(settings) * 100)}% 留空</span>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-slate-500">保留不挖空：</span>
+        {(Object.keys(WORD_CLASS_LABELS) as WordClass[]).map(wordClass => (
+          <button
+            key={wordClass}
+            onClick={() => toggleWordClass(wordClass)}
+            className={`px-2 py-1 rounded-full border transition-colors ${
+              settings.keepWordClasses.includes(wordClass)
+                ? 'bg-blue-50 border-blue-200 text-blue-700'
+                : 'bg-white border-slate-200 text-slate-400 line-through'
+            }`}
+          >
+            {WORD_CLASS_LABELS[wordClass]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ClozeSettingsPanel;
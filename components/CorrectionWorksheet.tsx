@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { ConfusableKind, DictationItem, DictationMode } from '../types';
+import { buildCorrectionQuestions } from '../services/errorCorrection';
+
+interface CorrectionWorksheetProps {
+  items: DictationItem[];
+  mode: DictationMode;
+  showAnswers: boolean;
+}
+
+const KIND_LABELS: Record<ConfusableKind, string> = {
+  shape: '形近',
+  sound: '同音',
+};
+
+const CorrectionWorksheet: React.FC<CorrectionWorksheetProps> = ({ items, mode, showAnswers }) => {
+  const questions = useMemo(() => buildCorrectionQuestions(items, mode), [items, mode]);
+
+  if (questions.length === 0) {
+    return <p className="text-center text-slate-400">這份詞表沒有可出改錯字的字 (No characters to swap)</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-100 p-4 border rounded-lg text-sm text-gray-700 print:bg-gray-100 print:text-black print:border-gray-300 mb-4">
+        <span className="font-bold">說明：</span> 找出下列句子中的錯別字，圈出來，並在括號內寫上正確的字。
+      </div>
+
+      {questions.map((question, idx) => {
+        const wrongAt = new Set(question.errors.map(e => e.index));
+        return (
+          <div key={question.itemId} className="border-b border-dashed border-gray-200 pb-4 break-inside-avoid">
+            <div className="flex gap-2 text-xl leading-loose">
+              <span className="font-bold w-6">{idx + 1}.</span>
+              <p className="flex-1 tracking-wide">
+                {Array.from(question.sentence).map((char, charIdx) =>
+                  showAnswers && wrongAt.has(charIdx) ? (
+                    <span key={charIdx} className="text-red-600 border-2 border-red-400 rounded-full px-0.5">{char}</span>
+                  ) : (
+                    <React.Fragment key={charIdx}>{char}</React.Fragment>
+                  )
+                )}
+              </p>
+            </div>
+            <div className="pl-8 mt-2 flex flex-wrap gap-4 text-xl">
+              {question.errors.map((error, errorIdx) => (
+                <span key={errorIdx}>
+                  （<span className="inline-block w-10 text-center font-bold text-green-700">{showAnswers ? error.correct : ''}</span>）
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {showAnswers && (
+        <div className="mt-8 pt-8 border-t border-dashed border-gray-300 print:block break-inside-avoid">
+          <h3 className="font-bold text-lg mb-4">參考答案：</h3>
+          <div className="space-y-1 text-sm text-gray-600">
+            {questions.map((question, idx) => (
+              <p key={question.itemId}>
+                {idx + 1}.{' '}
+                {question.errors
+                  .map(e => `第 ${e.position} 字「${e.wrong}」→「${e.correct}」(${KIND_LABELS[e.kind]})`)
+                  .join('；')}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CorrectionWorksheet;
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChildProfile, DictationItem, DictationMode, SessionRecord } from '../types';
+import { MODE_LABELS } from '../constants';
+import { getSessions } from '../services/sessionStore';
+import { MissedCharacter, TrendPoint, accuracyTrends, buildTargetedPractice, hasAnswers, mostMissedCharacters, practiceStreaks, sessionAccuracy, weeklySessionCounts } from '../services/progressStats';
+import { ArrowLeft, Flame, Target, TrendingUp, CalendarDays } from 'lucide-react';
+
+interface DashboardProps {
+  profile: ChildProfile;
+  onStart: (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', view: 'practice' | 'worksheet') => void;
+  onBack: () => void;
+}
+
+const MODE_COLORS: Record<DictationMode, string> = {
+  vocab: '#3B82F6',
+  character: '#10B981',
+  idiom: '#F59E0B',
+  paragraph: '#8B5CF6',
+};
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 200;
+const CHART_PADDING = 32;
+
+const formatDate = (time: number) => {
+  const date = new Date(time);
+  return `${date.getMonth() + 1}/${date.getDate()}`;
+};
+
+// Accuracy per session over time, one line per mode
+const AccuracyChart: React.FC<{ trends: Partial<Record<DictationMode, TrendPoint[]>> }> = ({ trends }) => {
+  const all = Object.values(trends).flat() as TrendPoint[];
+  const first = Math.min(...all.map(p => p.time));
+  const last = Math.max(...all.map(p => p.time));
+  const x = (time: number) => CHART_PADDING + (last === first ? 0.5 : (time - first) / (last - first)) * (CHART_WIDTH - CHART_PADDING * 2);
+  const y = (accuracy: number) => CHART_HEIGHT - CHART_PADDING - accuracy * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      {[0, 0.5, 1].map(level => (
+        <g key={level}>
+          <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={y(level)} y2={y(level)} stroke="#E2E8F0" strokeDasharray="4 4" />
+          <text x={CHART_PADDING - 6} y={y(level) + 4} textAnchor="end" fontSize="11" fill="#94A3B8">{level * 100}%</text>
+        </g>
+      ))}
+      <text x={CHART_PADDING} y={CHART_HEIGHT - 8} fontSize="11" fill="#94A3B8">{formatDate(first)}</text>
+      <text x={CHART_WIDTH - CHART_PADDING} y={CHART_HEIGHT - 8} textAnchor="end" fontSize="11" fill="#94A3B8">{formatDate(last)}</text>
+      {(Object.keys(trends) as DictationMode[]).map(mode => {
+        const points = trends[mode]!;
+        return (
+          <g key={mode}>
+            <polyline
+              points={points.map(p => `${x(p.time)},${y(p.accuracy)}`).join(' ')}
+              fill="none"
+              stroke={MODE_COLORS[mode]}
+              strokeWidth="2.5"
+              strokeLinejoin="round"
+            />
+            {points.map((p, idx) => (
+              <circle key={idx} cx={x(p.time)} cy={y(p.accuracy)} r="4" fill={MODE_COLORS[mode]}>
+                <title>{`${formatDate(p.time)} ${MODE_LABELS[mode]} ${Math.round(p.accuracy * 100)}%`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+// Sessions per week as bars
+const WeeklyChart: React.FC<{ weeks: { weekStart: number; count: number }[] }> = ({ weeks }) => {
+  const max = Math.max(1, ...weeks.map(w => w.count));
+  const slot = (CHART_WIDTH - CHART_PADDING * 2) / weeks.length;
+  const barHeight = (count: number) => (count / max) * (CHART_HEIGHT - CHART_PADDING * 2);
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+      <line x1={CHART_PADDING} x2={CHART_WIDTH - CHART_PADDING} y1={CHART_HEIGHT - CHART_PADDING} y2={CHART_HEIGHT - CHART_PADDING} stroke="#CBD5E1" />
+      {weeks.map((week, idx) => {
+        const left = CHART_PADDING + idx * slot + slot * 0.2;
+        const top = CHART_HEIGHT - CHART_PADDING - barHeight(week.count);
+        return (
+          <g key={week.weekStart}>
+            <rect x={left} y={top} width={slot * 0.6} height={barHeight(week.count)} rx="4" fill="#60A5FA" />
+            {week.count > 0 && <text x={left + slot * 0.3} y={top - 4} textAnchor="middle" fontSize="11" fill="#475569">{week.count}</text>}
+            <text x={left + slot * 0.3} y={CHART_HEIGHT - 12} textAnchor="middle" fontSize="11" fill="#94A3B8">{formatDate(week.weekStart)}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+const Dashboard: React.FC<DashboardProps> = ({ profile, onStart, onBack }) => {
+  const [sessions, setSessions] = useState<SessionRecord[] | null>(null);
+
+  useEffect(() => {
+    getSessions(profile.id)
+      .then(setSessions)
+      .catch(error => {
+        console.error("Error loading sessions:", error);
+        setSessions([]);
+      });
+  }, [profile.id]);
+
+  const stats = useMemo(() => {
+    if (!sessions) return null;
+    const recent = sessions.filter(hasAnswers).slice(-5);
+    return {
+      trends: accuracyTrends(sessions),
+      weeks: weeklySessionCounts(sessions),
+      streaks: practiceStreaks(sessions),
+      missed: mostMissedCharacters(sessions),
+      recentAccuracy: recent.length ? recent.reduce((sum, s) => sum + sessionAccuracy(s), 0) / recent.length : 0,
+    };
+  }, [sessions]);
+
+  const handlePractise = (missed: MissedCharacter) => {
+    const practice = buildTargetedPractice(missed);
+    if (practice) onStart(practice.items, practice.mode, profile.audioLanguage, 'practice');
+  };
+
+  if (!sessions || !stats) return null;
+
+  return (
+    <div className="min-h-screen p-6 max-w-4xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-bold">
+          <ArrowLeft className="w-5 h-5" />
+          返回
+        </button>
+        <h1 className="text-2xl font-bold text-slate-700">{profile.avatar} {profile.name} 的學習進度</h1>
+        <span className="w-16" />
+      </div>
+
+      {sessions.length === 0 ? (
+        <div className="bg-white rounded-2xl shadow p-10 text-center text-slate-400">
+          完成第一次默書後，這裏會顯示進度。(Progress appears after the first finished dictation)
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { icon: <CalendarDays className="w-5 h-5 text-blue-500" />, label: '默書次數', value: `${sessions.length}` },
+              { icon: <TrendingUp className="w-5 h-5 text-green-500" />, label: '近五次正確率', value: `${Math.round(stats.recentAccuracy * 100)}%` },
+              { icon: <Flame className="w-5 h-5 text-orange-500" />, label: '連續練習', value: `${stats.streaks.current} 天` },
+              { icon: <Flame className="w-5 h-5 text-slate-400" />, label: '最長連續', value: `${stats.streaks.longest} 天` },
+            ].map(card => (
+              <div key={card.label} className="bg-white rounded-2xl shadow p-4">
+                <div className="flex items-center gap-2 text-sm text-slate-500 mb-1">{card.icon}{card.label}</div>
+                <div className="text-3xl font-bold text-slate-700">{card.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {/* Accuracy over time */}
+          <div className="bg-white rounded-2xl shadow p-6">
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="font-bold text-slate-700">正確率 (Accuracy)</h2>
+              <div className="flex gap-3 text-xs">
+                {(Object.keys(stats.trends) as DictationMode[]).map(mode => (
+                  <span key={mode} className="flex items-center gap-1 text-slate-500">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: MODE_COLORS[mode] }} />
+                    {MODE_LABELS[mode]}
+                  </span>
+                ))}
+              </div>
+            </div>
+            {Object.keys(stats.trends).length > 0 ? (
+              <AccuracyChart trends={stats.trends} />
+            ) : (
+              <p className="text-center text-slate-400 py-4">輸入答案後才會計算正確率。(Accuracy needs typed answers)</p>
+            )}
+          </div>
+
+          {/* Sessions per week */}
+          <div className="bg-white rounded-2xl shadow p-6">
+            <h2 className="font-bold text-slate-700 mb-2">每週默書次數 (Sessions per week)</h2>
+            <WeeklyChart weeks={stats.weeks} />
+          </div>
+
+          {/* Most-missed characters */}
+          <div className="bg-white rounded-2xl shadow p-6">
+            <h2 className="font-bold text-slate-700 mb-1 flex items-center gap-2">
+              <Target className="w-5 h-5 text-red-500" />
+              最常寫錯的字
+            </h2>
+            <p className="text-sm text-slate-400 mb-4">點擊一個字，用含有這個字的題目再練習。</p>
+            {stats.missed.length === 0 ? (
+              <p className="text-center text-green-600 font-bold py-4">暫時沒有寫錯的字，繼續加油！</p>
+            ) : (
+              <div className="grid grid-cols-4 md:grid-cols-8 gap-3">
+                {stats.missed.map((missed, idx) => (
+                  <button
+                    key={missed.char}
+                    onClick={() => handlePractise(missed)}
+                    disabled={missed.items.length === 0}
+                    className="relative flex flex-col items-center p-3 border-2 border-red-100 rounded-xl hover:border-red-300 hover:bg-red-50 transition-all disabled:opacity-50"
+                    title={`錯 ${missed.wrongCount} 次 / 共 ${missed.seenCount} 次`}
+                  >
+                    <span className="absolute top-1 left-2 text-xs text-slate-300">{idx + 1}</span>
+                    <span className="text-4xl font-bold text-slate-700">{missed.char}</span>
+                    <span className="text-xs text-red-500 font-bold mt-1">錯 {missed.wrongCount} 次</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,168 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { AudioSettings, DictationItem, DictationMode, ExamSettings } from '../types';
+import { DEFAULT_EXAM_SETTINGS, ExamPlayer, ExamProgress, buildExamScript, createExamPlayer } from '../services/examScript';
+import { cancelSpeech, enqueueSpeech } from '../services/audioUtils';
+import VoicePicker from './VoicePicker';
+import { ArrowLeft, Play, Pause, SkipForward, Square, PenLine, Volume2 } from 'lucide-react';
+
+interface ExamModeProps {
+  items: DictationItem[];
+  mode: DictationMode;
+  audioLanguage: 'mandarin' | 'cantonese';
+  audio: AudioSettings;
+  onAudioChange: (settings: AudioSettings) => void;
+  onGrade: () => void;
+  onBack: () => void;
+}
+
+// Hands-free school-style dictation: the child writes on paper while the list is read out
+const ExamMode: React.FC<ExamModeProps> = ({ items, mode, audioLanguage, audio, onAudioChange, onGrade, onBack }) => {
+  const [settings, setSettings] = useState<ExamSettings>(DEFAULT_EXAM_SETTINGS);
+  const [progress, setProgress] = useState<ExamProgress>({ status: 'idle', step: null, stepIndex: 0 });
+  const playerRef = useRef<ExamPlayer | null>(null);
+
+  const script = useMemo(() => buildExamScript(items, mode, audioLanguage, settings), [items, mode, audioLanguage, settings]);
+
+  // Stop reading when leaving the page
+  useEffect(() => () => playerRef.current?.stop(), []);
+
+  const handleStart = () => {
+    playerRef.current?.stop();
+    playerRef.current = createExamPlayer(
+      script,
+      {
+        speak: async (text, slow) => {
+          await enqueueSpeech({ text, language: audioLanguage, rate: slow ? 0.7 : 0.9 }, audio);
+        },
+        cancel: cancelSpeech,
+      },
+      setProgress
+    );
+    playerRef.current.start();
+  };
+
+  const { status, step, stepIndex } = progress;
+  const itemIndex = step && step.itemIndex >= 0 ? step.itemIndex : status === 'finished' ? items.length - 1 : 0;
+  const isActive = status === 'running' || status === 'paused';
+
+  const caption = status === 'finished'
+    ? '默書完畢！可以交給家長批改。'
+    : status === 'paused'
+    ? '已暫停'
+    : step?.kind === 'speak'
+    ? '請留心聆聽…'
+    : step?.kind === 'pause' && step.writing
+    ? '請書寫…'
+    : '準備…';
+
+  return (
+    <div className="min-h-screen flex flex-col items-center p-6 max-w-3xl mx-auto">
+      <div className="w-full flex items-center justify-between mb-8">
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-bold">
+          <ArrowLeft className="w-5 h-5" />
+          返回
+        </button>
+        <h1 className="text-2xl font-bold text-slate-700">模擬默書 (Exam Mode)</h1>
+        <span className="text-sm text-slate-400">{audioLanguage === 'cantonese' ? '粵語' : '普通話'}</span>
+      </div>
+
+      {/* Settings can only change before reading starts */}
+      {!isActive && status !== 'finished' && (
+        <div className="w-full bg-white rounded-2xl shadow p-6 mb-6 space-y-4">
+          <VoicePicker value={audio} onChange={onAudioChange} language={audioLanguage} />
+          <label className="flex items-center justify-between gap-4">
+            <span className="font-bold text-slate-600">每題讀幾次</span>
+            <select
+              value={settings.repeats}
+              onChange={(e) => setSettings({ ...settings, repeats: Number(e.target.value) })}
+              className="px-3 py-2 border border-slate-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-100"
+            >
+              {[1, 2, 3].map(n => <option key={n} value={n}>{n} 次</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between gap-4">
+            <span className="font-bold text-slate-600">每個字的書寫時間</span>
+            <span className="flex items-center gap-2">
+              <input
+                type="range"
+                min={0.5}
+                max={4}
+                step={0.5}
+                value={settings.secondsPerChar}
+                onChange={(e) => setSettings({ ...settings, secondsPerChar: Number(e.target.value) })}
+                className="w-40 accent-blue-600"
+              />
+              <span className="w-12 text-right text-slate-500">{settings.secondsPerChar} 秒</span>
+            </span>
+          </label>
+          {mode === 'paragraph' && (
+            <label className="flex items-center justify-between gap-4">
+              <span className="font-bold text-slate-600">讀出標點符號 (逗號、句號…)</span>
+              <input
+                type="checkbox"
+                checked={settings.readPunctuation}
+                onChange={(e) => setSettings({ ...settings, readPunctuation: e.target.checked })}
+                className="w-5 h-5 accent-blue-600"
+              />
+            </label>
+          )}
+        </div>
+      )}
+
+      <div className="w-full bg-white rounded-3xl shadow-xl p-10 text-center border-4 border-white ring-4 ring-blue-50">
+        <div className="text-slate-400 font-bold mb-2">
+          {mode === 'paragraph' ? `第 ${itemIndex + 1} / ${items.length} 句` : `第 ${itemIndex + 1} / ${items.length} 題`}
+        </div>
+        <div className="flex items-center justify-center gap-3 text-3xl font-bold text-slate-700 mb-6 min-h-[3rem]">
+          {step?.kind === 'speak' && status === 'running' && <Volume2 className="w-8 h-8 text-orange-400 animate-pulse" />}
+          {step?.kind === 'pause' && step.writing && status === 'running' && <PenLine className="w-8 h-8 text-blue-500" />}
+          {caption}
+        </div>
+        <div className="w-full h-2 bg-gray-200 rounded-full mb-8">
+          <div
+            className="h-full bg-blue-500 rounded-full transition-all duration-500"
+            style={{ width: `${status === 'finished' ? 100 : (stepIndex / script.length) * 100}%` }}
+          />
+        </div>
+
+        <div className="flex justify-center gap-3">
+          {!isActive ? (
+            <button onClick={handleStart} className="flex items-center gap-2 px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-xl shadow-lg">
+              <Play className="w-6 h-6" />
+              {status === 'finished' ? '再來一次' : '開始 (Start)'}
+            </button>
+          ) : (
+            <>
+              {status === 'running' ? (
+                <button onClick={() => playerRef.current?.pause()} className="flex items-center gap-2 px-6 py-4 bg-orange-400 hover:bg-orange-500 text-white rounded-xl font-bold text-lg">
+                  <Pause className="w-5 h-5" />
+                  暫停
+                </button>
+              ) : (
+                <button onClick={() => playerRef.current?.resume()} className="flex items-center gap-2 px-6 py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-lg">
+                  <Play className="w-5 h-5" />
+                  繼續
+                </button>
+              )}
+              <button onClick={() => playerRef.current?.skip()} className="flex items-center gap-2 px-6 py-4 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold text-lg">
+                <SkipForward className="w-5 h-5" />
+                跳過
+              </button>
+              <button onClick={() => playerRef.current?.stop()} className="flex items-center gap-2 px-6 py-4 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold text-lg">
+                <Square className="w-5 h-5" />
+                停止
+              </button>
+            </>
+          )}
+          {status === 'finished' && (
+            <button onClick={onGrade} className="flex items-center gap-2 px-8 py-4 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-xl font-bold text-xl">
+              批改相片
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExamMode;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { DictationItem, DictationMode } from '../types';
+import { exportListAsJson, exportListAsCsv, downloadFile } from '../services/listFile';
+import { renderDictationAudio } from '../services/audioExport';
+import { Download, FileJson, FileSpreadsheet, FileAudio, Loader2 } from 'lucide-react';
+
+interface ExportMenuProps {
+  items: DictationItem[];
+  mode: DictationMode;
+  audioLanguage: 'mandarin' | 'cantonese';
+  align?: 'left' | 'right';
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ items, mode, audioLanguage, align = 'right' }) => {
+  const [open, setOpen] = useState(false);
+  const [audioProgress, setAudioProgress] = useState<string | null>(null);
+  const baseName = `默書-${new Date().toISOString().slice(0, 10)}`;
+
+  const handleExport = (format: 'json' | 'csv') => {
+    if (format === 'json') {
+      downloadFile(`${baseName}.json`, exportListAsJson(items, mode, audioLanguage), 'application/json');
+    } else {
+      downloadFile(`${baseName}.csv`, exportListAsCsv(items, mode, audioLanguage), 'text/csv');
+    }
+    setOpen(false);
+  };
+
+  // The whole list read school-style, with a CUE sheet marking each item
+  const handleExportAudio = async () => {
+    setOpen(false);
+    setAudioProgress('0%');
+    try {
+      const { wav, cue } = await renderDictationAudio(items, mode, audioLanguage, `${baseName}.wav`, undefined, (done, total) =>
+        setAudioProgress(`${Math.round((done / total) * 100)}%`)
+      );
+      downloadFile(`${baseName}.wav`, wav, 'audio/wav');
+      downloadFile(`${baseName}.cue`, cue, 'text/plain');
+    } catch (error) {
+      console.error("Error exporting audio:", error);
+      alert("未能生成語音檔，請檢查網絡或先為每項錄音。(Could not render audio)");
+    } finally {
+      setAudioProgress(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={!!audioProgress}
+        className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors"
+      >
+        {audioProgress ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        {audioProgress ? `生成語音 ${audioProgress}` : '匯出'}
+      </button>
+      {open && (
+        <div className={`absolute ${align === 'right' ? 'right-0' : 'left-0'} mt-2 w-48 bg-white border border-slate-200 rounded-xl shadow-lg overflow-hidden z-50`}>
+          <button onClick={() => handleExport('csv')} className="w-full flex items-center gap-2 px-4 py-3 text-sm text-slate-700 hover:bg-slate-50">
+            <FileSpreadsheet className="w-4 h-4 text-green-600" />
+            Excel (CSV)
+          </button>
+          <button onClick={() => handleExport('json')} className="w-full flex items-center gap-2 px-4 py-3 text-sm text-slate-700 hover:bg-slate-50">
+            <FileJson className="w-4 h-4 text-amber-500" />
+            JSON
+          </button>
+          <button onClick={handleExportAudio} className="w-full flex items-center gap-2 px-4 py-3 text-sm text-slate-700 hover:bg-slate-50">
+            <FileAudio className="w-4 h-4 text-blue-500" />
+            語音檔 (WAV)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceRecording } from '../types';
+import { ActiveRecording, createRecording, deleteRecording, getRecording, saveRecording, startRecording } from '../services/recordingStore';
+import { cancelSpeech, enqueueRecording } from '../services/audioUtils';
+import { Mic, Square, Play, RotateCcw, Trash2, Scissors } from 'lucide-react';
+
+interface ItemRecorderProps {
+  recordingKey: string;
+  label: string;
+}
+
+const formatSeconds = (ms: number) => (ms / 1000).toFixed(1);
+
+// Record, trim, preview and re-record a parent's reading of one item
+const ItemRecorder: React.FC<ItemRecorderProps> = ({ recordingKey, label }) => {
+  const [recording, setRecording] = useState<VoiceRecording | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [showTrim, setShowTrim] = useState(false);
+  const activeRef = useRef<ActiveRecording | null>(null);
+  const trimmedRef = useRef<VoiceRecording | null>(null); // Latest trim, not yet saved
+
+  useEffect(() => {
+    let active = true;
+    getRecording(recordingKey).then(found => {
+      if (active) setRecording(found);
+    });
+    return () => {
+      active = false;
+      activeRef.current?.cancel();
+    };
+  }, [recordingKey]);
+
+  const handleRecord = async () => {
+    cancelSpeech();
+    try {
+      activeRef.current = await startRecording();
+      setIsRecording(true);
+    } catch (error) {
+      console.error("Error starting recording:", error);
+      alert("無法使用麥克風，請檢查瀏覽器權限。(Microphone unavailable)");
+    }
+  };
+
+  const handleStop = async () => {
+    const active = activeRef.current;
+    activeRef.current = null;
+    setIsRecording(false);
+    if (!active) return;
+    try {
+      const saved = await createRecording(recordingKey, await active.stop());
+      await saveRecording(saved);
+      setRecording(saved);
+    } catch (error) {
+      console.error("Error saving recording:", error);
+      alert("錄音未能儲存，請再試一次。(Could not save recording)");
+    }
+  };
+
+  const handleRerecord = () => {
+    if (!window.confirm(`要重新錄製「${label}」嗎？`)) return;
+    handleRecord();
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`確定要刪除「${label}」的錄音嗎？`)) return;
+    try {
+      await deleteRecording(recordingKey);
+      setRecording(null);
+      setShowTrim(false);
+    } catch (error) {
+      console.error("Error deleting recording:", error);
+      alert("錄音未能刪除，請再試一次。(Could not delete recording)");
+    }
+  };
+
+  const handlePreview = () => {
+    if (!recording) return;
+    cancelSpeech();
+    enqueueRecording(recording);
+  };
+
+  const updateTrim = (changes: Partial<Pick<VoiceRecording, 'trimStartMs' | 'trimEndMs'>>) => {
+    if (!recording) return;
+    trimmedRef.current = { ...recording, ...changes };
+    setRecording(trimmedRef.current);
+  };
+
+  // Saved when the slider is released rather than on every step
+  const commitTrim = () => {
+    const trimmed = trimmedRef.current;
+    trimmedRef.current = null;
+    if (trimmed) saveRecording(trimmed).catch(error => console.error("Error saving trim:", error));
+  };
+
+  if (isRecording) {
+    return (
+      <button onClick={handleStop} className="flex items-center gap-1 px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white rounded-lg text-sm font-bold animate-pulse">
+        <Square className="w-4 h-4" />
+        停止
+      </button>
+    );
+  }
+
+  if (!recording) {
+    return (
+      <button onClick={handleRecord} className="flex items-center gap-1 px-3 py-1.5 text-red-500 hover:bg-red-50 rounded-lg text-sm font-bold" title="錄音">
+        <Mic className="w-4 h-4" />
+        錄音
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <div className="flex items-center gap-1">
+        <span className="text-xs text-slate-400 mr-1">{formatSeconds(recording.trimEndMs - recording.trimStartMs)} 秒</span>
+        <button onClick={handlePreview} className="p-1.5 text-blue-600 hover:bg-blue-50 rounded" title="試聽">
+          <Play className="w-4 h-4" />
+        </button>
+        <button onClick={() => setShowTrim(!showTrim)} className={`p-1.5 rounded ${showTrim ? 'bg-blue-100 text-blue-600' : 'text-slate-400 hover:bg-slate-50'}`} title="剪裁">
+          <Scissors className="w-4 h-4" />
+        </button>
+        <button onClick={handleRerecord} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded" title="重錄">
+          <RotateCcw className="w-4 h-4" />
+        </button>
+        <button onClick={handleDelete} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="刪除錄音">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      {showTrim && (
+        <div className="flex flex-col gap-1 text-xs text-slate-500">
+          <label className="flex items-center gap-2">
+            開始
+            <input
+              type="range"
+              min={0}
+              max={recording.durationMs}
+              step={50}
+              value={recording.trimStartMs}
+              onChange={(e) => updateTrim({ trimStartMs: Math.min(Number(e.target.value), recording.trimEndMs - 100) })}
+              onPointerUp={commitTrim}
+              onKeyUp={commitTrim}
+              className="w-32 accent-blue-600"
+            />
+            <span className="w-8 text-right">{formatSeconds(recording.trimStartMs)}</span>
+          </label>
+          <label className="flex items-center gap-2">
+            結束
+            <input
+              type="range"
+              min={0}
+              max={recording.durationMs}
+              step={50}
+              value={recording.trimEndMs}
+              onChange={(e) => updateTrim({ trimEndMs: Math.max(Number(e.target.value), recording.trimStartMs + 100) })}
+              onPointerUp={commitTrim}
+              onKeyUp={commitTrim}
+              className="w-32 accent-blue-600"
+            />
+            <span className="w-8 text-right">{formatSeconds(recording.trimEndMs)}</span>
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ItemRecorder;
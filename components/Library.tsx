@@ -0,0 +1,209 @@
+import React, { useState, useEffect } from 'react';
+import { DictationItem, DictationMode, SavedList } from '../types';
+import { MODE_LABELS } from '../constants';
+import { getAllLists, updateList, duplicateList, deleteList, searchLists, parseTags } from '../services/libraryStore';
+import { recordingKey } from '../services/recordingStore';
+import { practiceTexts } from '../services/audioCache';
+import ItemRecorder from './ItemRecorder';
+import { Library as LibraryIcon, Search, Play, Printer, Pencil, Copy, Trash2, Check, X, FileText, Mic } from 'lucide-react';
+
+interface LibraryProps {
+  profileId: string;
+  onStart: (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', view: 'practice' | 'worksheet') => void;
+}
+
+const Library: React.FC<LibraryProps> = ({ profileId, onStart }) => {
+  const [lists, setLists] = useState<SavedList[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [editTags, setEditTags] = useState('');
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setLists(await getAllLists(profileId));
+    } catch (error) {
+      console.error("Error loading library:", error);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [profileId]);
+
+  const startEditing = (list: SavedList) => {
+    setEditingId(list.id);
+    setEditTitle(list.title);
+    setEditTags(list.tags.join(' '));
+  };
+
+  const saveEditing = async () => {
+    if (!editingId) return;
+    try {
+      await updateList(editingId, { title: editTitle.trim() || '未命名', tags: parseTags(editTags) });
+      setEditingId(null);
+    } catch (error) {
+      console.error("Error updating list:", error);
+      alert("儲存失敗，請再試一次。(Save failed)");
+    }
+    refresh();
+  };
+
+  const handleDuplicate = async (list: SavedList) => {
+    try {
+      await duplicateList(list);
+    } catch (error) {
+      console.error("Error duplicating list:", error);
+      alert("複製失敗，請再試一次。(Duplicate failed)");
+    }
+    refresh();
+  };
+
+  const handleDelete = async (list: SavedList) => {
+    if (!window.confirm(`確定要刪除「${list.title}」嗎？`)) return;
+    try {
+      await deleteList(list.id);
+    } catch (error) {
+      console.error("Error deleting list:", error);
+      alert("刪除失敗，請再試一次。(Delete failed)");
+    }
+    refresh();
+  };
+
+  if (lists.length === 0) return null;
+
+  const visibleLists = searchLists(lists, query);
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-xl p-6 border-2 border-blue-100 mt-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h2 className="text-xl font-bold text-slate-700 flex items-center gap-2">
+          <LibraryIcon className="w-6 h-6 text-blue-500" />
+          我的默書
+        </h2>
+        <div className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-full px-3 py-1.5 focus-within:ring-2 focus-within:ring-blue-200">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            className="bg-transparent outline-none text-sm w-40"
+            placeholder="搜尋標題、標籤、內容"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3 max-h-[420px] overflow-y-auto pr-1">
+        {visibleLists.map(list => (
+          <div key={list.id} className="border border-slate-100 rounded-xl hover:border-blue-200 transition-all">
+            <div className="flex gap-3 p-3">
+              {/* Thumbnail */}
+              <div className="w-14 h-14 flex-shrink-0 rounded-lg bg-slate-100 overflow-hidden flex items-center justify-center">
+                {list.thumbnails[0] ? (
+                  <img src={list.thumbnails[0]} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <FileText className="w-6 h-6 text-slate-300" />
+                )}
+              </div>
+
+              <div className="flex-1 min-w-0">
+                {editingId === list.id ? (
+                  <div className="space-y-1">
+                    <input
+                      className="w-full px-2 py-1 border border-blue-300 rounded text-sm font-bold outline-none"
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      autoFocus
+                    />
+                    <input
+                      className="w-full px-2 py-1 border border-slate-200 rounded text-xs outline-none"
+                      placeholder="標籤，以空格分隔，例如：P3 第五課"
+                      value={editTags}
+                      onChange={(e) => setEditTags(e.target.value)}
+                    />
+                  </div>
+                ) : (
+                  <>
+                    <div className="font-bold text-slate-700 truncate">{list.title}</div>
+                    <div className="flex flex-wrap items-center gap-1 mt-1 text-xs">
+                      <span className="px-2 py-0.5 bg-blue-50 text-blue-600 rounded-full font-bold">{MODE_LABELS[list.mode]}</span>
+                      <span className="px-2 py-0.5 bg-slate-50 text-slate-500 rounded-full">{list.audioLanguage === 'cantonese' ? '粵語' : '普通話'}</span>
+                      {list.tags.map(tag => (
+                        <span key={tag} className="px-2 py-0.5 bg-amber-50 text-amber-600 rounded-full">{tag}</span>
+                      ))}
+                      <span className="text-slate-400 ml-1">
+                        {list.items.length} 項 · {new Date(list.createdAt).toLocaleDateString('zh-HK')}
+                      </span>
+                    </div>
+                  </>
+                )}
+              </div>
+
+              {/* Actions */}
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {editingId === list.id ? (
+                  <>
+                    <button onClick={saveEditing} className="p-2 text-green-600 hover:bg-green-50 rounded-lg" title="儲存">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} className="p-2 text-slate-400 hover:bg-slate-50 rounded-lg" title="取消">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => onStart(list.items, list.mode, list.audioLanguage, 'practice')} className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg" title="開始練習">
+                      <Play className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => onStart(list.items, list.mode, list.audioLanguage, 'worksheet')} className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg" title="生成練習卷">
+                      <Printer className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => setRecordingId(recordingId === list.id ? null : list.id)}
+                      className={`p-2 rounded-lg ${recordingId === list.id ? 'bg-red-50 text-red-500' : 'text-slate-400 hover:text-red-500 hover:bg-red-50'}`}
+                      title="家長錄音"
+                    >
+                      <Mic className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => startEditing(list)} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-lg" title="改名 / 標籤">
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDuplicate(list)} className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-50 rounded-lg" title="複製">
+                      <Copy className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => handleDelete(list)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg" title="刪除">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+
+            {/* Parent recordings, played instead of TTS in practice */}
+            {recordingId === list.id && (
+              <div className="border-t border-slate-100 p-3 space-y-2">
+                <p className="text-xs text-slate-400">錄下家長的讀音，練習時會優先播放。(Recordings are played instead of the synthetic voice)</p>
+                {list.items.map((item, idx) => (
+                  <div key={item.id} className="flex items-start justify-between gap-3">
+                    <div className="pt-1.5 text-sm text-slate-700 min-w-0">
+                      <span className="text-slate-400 mr-2">{idx + 1}.</span>
+                      {practiceTexts(item, list.mode, list.audioLanguage)[0]}
+                    </div>
+                    <ItemRecorder recordingKey={recordingKey(list.mode, list.audioLanguage, item.content)} label={item.content} />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {visibleLists.length === 0 && (
+          <p className="text-center text-sm text-slate-400 py-4">找不到符合「{query}」的默書</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Library;
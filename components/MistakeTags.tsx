@@ -0,0 +1,37 @@
+import React from 'react';
+import { Mistake, MistakeKind } from '../types';
+import { MISTAKE_LABELS } from '../constants';
+
+interface MistakeTagsProps {
+  mistakes: Mistake[];
+}
+
+const KIND_STYLES: Record<MistakeKind, string> = {
+  homophone: 'bg-purple-50 text-purple-600 border-purple-200',
+  lookalike: 'bg-blue-50 text-blue-600 border-blue-200',
+  radical: 'bg-teal-50 text-teal-600 border-teal-200',
+  omission: 'bg-amber-50 text-amber-600 border-amber-200',
+  insertion: 'bg-orange-50 text-orange-500 border-orange-200',
+  order: 'bg-pink-50 text-pink-600 border-pink-200',
+  other: 'bg-slate-50 text-slate-500 border-slate-200',
+};
+
+// One tag per mistake: its category and what was written instead
+const MistakeTags: React.FC<MistakeTagsProps> = ({ mistakes }) => {
+  if (mistakes.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {mistakes.map((m, idx) => (
+        <span key={idx} className={`px-2 py-0.5 rounded-full border text-xs font-bold ${KIND_STYLES[m.kind]}`}>
+          {MISTAKE_LABELS[m.kind]}
+          <span className="ml-1 font-medium">
+            {m.kind === 'omission' ? m.expected : m.kind === 'insertion' ? m.actual : `${m.expected} → ${m.actual}`}
+          </span>
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default MistakeTags;
@@ -0,0 +1,171 @@
+import React, { useState, useRef } from 'react';
+import { DictationItem, DictationMode, ItemResult, PhotoGrade } from '../types';
+import AnswerDiff from './AnswerDiff';
+import { gradeHandwriting, HandwritingRecognizer, PhotoInput } from '../services/handwritingGrader';
+import { ArrowLeft, Camera, Sparkles, ClipboardCheck } from 'lucide-react';
+
+interface PhotoGraderProps {
+  items: DictationItem[];
+  mode: DictationMode;
+  recognizer?: HandwritingRecognizer;
+  onComplete: (results: ItemResult[]) => void;
+  onBack: () => void;
+}
+
+const PhotoGrader: React.FC<PhotoGraderProps> = ({ items, mode, recognizer, onComplete, onBack }) => {
+  const [photo, setPhoto] = useState<(PhotoInput & { url: string }) | null>(null);
+  const [grade, setGrade] = useState<PhotoGrade | null>(null);
+  const [loading, setLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const result = e.target?.result as string;
+      setPhoto({ mimeType: file.type, data: result.split(',')[1], url: result });
+      setGrade(null);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleGrade = async () => {
+    if (!photo) return;
+    setLoading(true);
+    try {
+      const graded = await gradeHandwriting(photo, items, mode, recognizer);
+      if (graded.lines.length === 0) {
+        alert("未能辨認相片中的字跡，請重新拍攝清晰的相片。(Could not read the handwriting)");
+        return;
+      }
+      setGrade(graded);
+    } catch (error) {
+      console.error("Error grading handwriting:", error);
+      alert("批改失敗，請檢查網絡後再試。(Grading failed)");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Wrong and extra characters are boxed in red on the photo
+  const highlights = grade
+    ? grade.items.flatMap(g =>
+        g.result.diff.map((d, idx) => ({ diff: d, box: g.boxes[idx] }))
+          .filter(h => h.box && (h.diff.status === 'wrong' || h.diff.status === 'extra'))
+      )
+    : [];
+
+  const wrongCount = grade ? grade.items.filter(g => !g.result.isCorrect).length : 0;
+
+  return (
+    <div className="min-h-screen bg-slate-100 pb-20">
+      <div className="sticky top-0 bg-white border-b border-slate-200 p-4 shadow-sm flex items-center justify-between z-50">
+        <button onClick={onBack} className="flex items-center gap-2 text-slate-600 hover:text-slate-900 font-bold">
+          <ArrowLeft className="w-5 h-5" />
+          返回
+        </button>
+        <h2 className="font-bold text-lg text-slate-800">批改默書 (Grade Paper)</h2>
+        <button
+          onClick={() => grade && onComplete(grade.items.map(g => g.result))}
+          disabled={!grade}
+          className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium shadow-md transition-colors ${grade ? 'bg-blue-600 hover:bg-blue-700 text-white' : 'bg-slate-200 text-slate-400 cursor-not-allowed'}`}
+        >
+          <ClipboardCheck className="w-4 h-4" />
+          查看報告
+        </button>
+      </div>
+
+      <div className="max-w-5xl mx-auto p-4 grid md:grid-cols-2 gap-6">
+        {/* Photo */}
+        <div className="bg-white rounded-2xl shadow-sm border border-blue-100 p-4">
+          <input
+            type="file"
+            ref={fileInputRef}
+            onChange={handleFileChange}
+            className="hidden"
+            accept="image/*"
+            capture="environment"
+          />
+
+          {photo ? (
+            <div className="relative">
+              <img src={photo.url} alt="默書相片" className="w-full rounded-lg" />
+              {highlights.map((h, idx) => {
+                const [ymin, xmin, ymax, xmax] = h.box!;
+                return (
+                  <div
+                    key={idx}
+                    className="absolute border-2 border-red-500 bg-red-500/10 rounded"
+                    style={{ top: `${ymin / 10}%`, left: `${xmin / 10}%`, height: `${(ymax - ymin) / 10}%`, width: `${(xmax - xmin) / 10}%` }}
+                    title={h.diff.status === 'wrong' ? `應為「${h.diff.expected}」` : '多寫 (Extra)'}
+                  >
+                    {h.diff.expected && (
+                      <span className="absolute -top-5 left-1/2 -translate-x-1/2 bg-red-500 text-white text-xs font-bold px-1 rounded">
+                        {h.diff.expected}
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full h-64 border-2 border-dashed border-slate-300 rounded-xl flex flex-col items-center justify-center gap-2 text-slate-500 hover:bg-slate-50 hover:border-blue-400 hover:text-blue-500 transition-all"
+            >
+              <Camera className="w-10 h-10" />
+              <span>拍攝或上傳默書相片</span>
+            </button>
+          )}
+
+          {photo && (
+            <div className="flex gap-3 mt-4">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="px-4 py-3 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-xl font-bold"
+              >
+                <Camera className="w-5 h-5" />
+              </button>
+              <button
+                onClick={handleGrade}
+                disabled={loading}
+                className={`flex-1 py-3 rounded-xl text-white font-bold flex items-center justify-center gap-2 ${loading ? 'bg-slate-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}`}
+              >
+                <Sparkles className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                {loading ? '正在批改...' : '開始批改 (Grade)'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Per-item Results */}
+        <div className="space-y-3">
+          {grade ? (
+            <>
+              <div className={`text-center font-bold text-lg ${wrongCount === 0 ? 'text-green-600' : 'text-slate-700'}`}>
+                {wrongCount === 0 ? '全部正確！🎉' : `有 ${wrongCount} 題需要改正`}
+              </div>
+              {grade.items.map((g, idx) => (
+                <div key={items[idx].id} className="bg-white rounded-xl border border-slate-100 p-4">
+                  <div className="text-xs text-slate-400 font-bold mb-2">{idx + 1}. {items[idx].content}</div>
+                  {g.result.answer ? (
+                    <AnswerDiff result={g.result} />
+                  ) : (
+                    <p className="text-sm text-slate-400 text-center">找不到這題的答案 (Not found on paper)</p>
+                  )}
+                </div>
+              ))}
+            </>
+          ) : (
+            <div className="bg-blue-50 border border-blue-100 rounded-xl p-4 text-sm text-slate-500">
+              <strong>使用方法：</strong> 完成紙本默書後，拍下整張默書紙。系統會辨認字跡，並與目前的 {items.length} 個默書項目對照批改。
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoGrader;
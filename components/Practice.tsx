@@ -1,29 +1,44 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { DictationItem, ChatMessage, RobotEmotion, DictationMode } from '../types';
+import { DictationItem, ChatMessage, RobotEmotion, DictationMode, ItemResult, Annotation, AudioSettings, VoiceRecording } from '../types';
 import Mascot from './Mascot';
-import { chatWithAssistant, generateSpeech } from '../services/geminiService';
-import { decode, decodeAudioData, playAudioBuffer, getAudioContext } from '../services/audioUtils';
-import { Send, Volume2, ChevronRight, Eye, RefreshCw, EyeOff, Play, Mic, MicOff, Globe } from 'lucide-react';
-
-// Define SpeechRecognition types for TypeScript
-interface IWindow extends Window {
-  webkitSpeechRecognition: any;
-  SpeechRecognition: any;
-}
+import AnswerDiff from './AnswerDiff';
+import ExportMenu from './ExportMenu';
+import RubyText from './RubyText';
+import AnnotationSelect from './AnnotationSelect';
+import VoicePicker from './VoicePicker';
+import { chatWithAssistant } from '../services/aiProvider';
+import { pregenerateAudio } from '../services/audioCache';
+import { getRecording, recordingKey } from '../services/recordingStore';
+import { enqueueSpeech, enqueueSilence, cancelSpeech } from '../services/audioUtils';
+import { checkAnswer } from '../services/answerChecker';
+import { classifyMistakes, describeMistakes } from '../services/mistakeClassifier';
+import { characterCue } from '../services/characterUtils';
+import { RecognitionSession, getSpeechRecognizer } from '../services/speechRecognizer';
+import ReadAloudPanel from './ReadAloudPanel';
+import { Send, Volume2, ChevronRight, Eye, RefreshCw, EyeOff, Play, Mic, MicOff, Globe, CheckCircle2, PenLine, Download } from 'lucide-react';
 
 interface PracticeProps {
   items: DictationItem[];
   mode: DictationMode;
   audioLanguage: 'mandarin' | 'cantonese';
+  annotation: Annotation;
+  onAnnotationChange: (annotation: Annotation) => void;
+  audio: AudioSettings;
+  onAudioChange: (settings: AudioSettings) => void;
+  results: Record<string, ItemResult>;
+  onResult: (result: ItemResult) => void;
+  onFinish: () => void;
+  onExam: () => void;
   onBack: () => void;
 }
 
-const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack }) => {
+const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, annotation, onAnnotationChange, audio, onAudioChange, results, onResult, onFinish, onExam, onBack }) => {
   // Game State
   const [currentIndex, setCurrentIndex] = useState(0);
   const [stage, setStage] = useState<'reading' | 'revealed'>('reading');
   const [robotEmotion, setRobotEmotion] = useState<RobotEmotion>('idle');
+  const [answer, setAnswer] = useState('');
   
   // Chat State
   const [messages, setMessages] = useState<ChatMessage[]>([
@@ -31,91 +46,120 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
   ]);
   const [chatInput, setChatInput] = useState('');
   const [isListening, setIsListening] = useState(false);
+
+  // Progress of "prepare audio", null when idle
+  const [preparing, setPreparing] = useState<{ done: number; total: number } | null>(null);
   
   // Voice Input State - Independent of Dictation Audio
   // Defaults to zh-HK but user can toggle.
   const [inputLang, setInputLang] = useState<string>('zh-HK');
   
-  const recognitionRef = useRef<any>(null);
+  const recognitionRef = useRef<RecognitionSession | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
+  // Per-item stats for the session report
+  const playCountRef = useRef(0);
+  const itemStartRef = useRef(Date.now());
+
+  // The parent's recording of the current item, if there is one
+  const [recording, setRecording] = useState<VoiceRecording | null>(null);
+
   const currentItem = items[currentIndex];
+  const currentResult = results[currentItem.id];
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
   useEffect(() => {
-    // Reset stage when index changes
+    // Reset stage, answer and stats when index changes
     setStage('reading');
+    setAnswer('');
+    playCountRef.current = 0;
+    itemStartRef.current = Date.now();
+    // Don't keep reading the previous item
+    cancelSpeech();
   }, [currentIndex]);
 
+  useEffect(() => () => cancelSpeech(), []);
+
+  useEffect(() => {
+    // Loaded ahead of time so pressing Play starts at once
+    let active = true;
+    setRecording(null);
+    getRecording(recordingKey(mode, audioLanguage, currentItem.content)).then(found => {
+      if (active) setRecording(found);
+    });
+    return () => {
+      active = false;
+    };
+  }, [currentItem.content, mode, audioLanguage]);
+
   // --- Audio Logic ---
   
-  const speakText = async (text: string, isSlow: boolean = false) => {
+  // Plays the parent's recording instead when one is given, falling back to TTS
+  const speakText = async (text: string, isSlow: boolean = false, withRecording: VoiceRecording | null = null) => {
     setRobotEmotion('speaking');
-
-    // Strategy: Use Browser SpeechSynthesis for Cantonese (most reliable for dialect)
-    // Use Gemini or Browser for Mandarin depending on complexity. 
-    // To ensure consistency with the user's request for "Cantonese", we prioritize Browser TTS for it.
-
-    if (audioLanguage === 'cantonese' || 'speechSynthesis' in window) {
-      // Browser TTS
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      
-      // Attempt to find a Cantonese voice
-      const voices = window.speechSynthesis.getVoices();
-      const cantoneseVoice = voices.find(v => v.lang.includes('HK') || v.lang.includes('yue'));
-      const mandarinVoice = voices.find(v => v.lang.includes('CN') || v.lang.includes('zh'));
-      
-      if (audioLanguage === 'cantonese' && cantoneseVoice) {
-        utterance.voice = cantoneseVoice;
-        utterance.lang = 'zh-HK';
-      } else {
-        // Fallback or Mandarin
-        if (mandarinVoice) utterance.voice = mandarinVoice;
-        utterance.lang = 'zh-CN';
-      }
-
-      // Speed control based on mode/request
-      utterance.rate = isSlow ? 0.7 : 0.9;
-      
-      utterance.onend = () => setRobotEmotion('idle');
-      utterance.onerror = () => setRobotEmotion('idle');
-      
-      window.speechSynthesis.speak(utterance);
-    } else {
-      // Fallback logic if needed, but modern browsers support TTS.
-      setRobotEmotion('idle');
-      alert("你的瀏覽器不支持語音功能 (Browser TTS not supported)");
-    }
+    const finished = await enqueueSpeech({ text, language: audioLanguage, rate: isSlow ? 0.7 : 0.9, recording: withRecording }, audio);
+    // A cancelled entry was cut short by newer audio, which owns the mascot now
+    if (finished) setRobotEmotion('idle');
+    return finished;
   };
 
   const handlePlayAudio = async () => {
+    if (stage === 'reading') playCountRef.current += 1;
+    // Replaying starts over instead of queueing behind the current reading
+    cancelSpeech();
+
     if (mode === 'paragraph') {
       // Slow reading for paragraphs
-      await speakText(currentItem.content, true);
+      await speakText(currentItem.content, true, recording);
     } else if (mode === 'idiom') {
       // Read Idiom, pause, then read meaning
-      await speakText(currentItem.content, false);
-      // We can't easily chain promises with window.speechSynthesis in a clean way without event listeners, 
-      // but for simplicity, we just queue them.
-      setTimeout(() => {
-         speakText(`意思是：${currentItem.meaning}`, false);
-      }, 2000);
+      // Each step waits for the last, so replaying or moving on stops the rest
+      if (await speakText(currentItem.content, false, recording) && await enqueueSilence(2000)) {
+        await speakText(`意思是：${currentItem.meaning}`, false);
+      }
+    } else if (mode === 'character') {
+      // A lone character is ambiguous by ear, so read it with its word
+      await speakText(characterCue(currentItem, audioLanguage), true, recording);
     } else {
       // Vocab
-      await speakText(currentItem.content, false);
+      await speakText(currentItem.content, false, recording);
+    }
+  };
+
+  const handlePrepareAudio = async () => {
+    setPreparing({ done: 0, total: items.length });
+    const failed = await pregenerateAudio(items, mode, audioLanguage, (done, total) => setPreparing({ done, total }));
+    setPreparing(null);
+    if (failed > 0) {
+      alert(`有 ${failed} 段語音未能準備，請檢查網絡後再試。(Some audio could not be prepared)`);
     }
   };
 
   // --- Flow Logic ---
 
+  const recordResult = (typedAnswer: string) => {
+    const result = checkAnswer(currentItem, typedAnswer, mode, {
+      playCount: playCountRef.current,
+      timeSpentMs: Date.now() - itemStartRef.current,
+    });
+    onResult(result);
+    return result;
+  };
+
+  const handleSubmitAnswer = () => {
+    const result = recordResult(answer);
+    setRobotEmotion(result.isCorrect ? 'happy' : 'idle');
+    setStage('revealed');
+  };
+
   const handleNext = () => {
     if (stage === 'reading') {
+      // Revealing without an answer still counts towards the report
+      recordResult('');
       setStage('revealed');
-      // If needed, play the audio again or provide positive reinforcement
     } else {
       if (currentIndex < items.length - 1) {
         setCurrentIndex(prev => prev + 1);
@@ -123,57 +167,38 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
         setRobotEmotion('idle');
       } else {
         // End of list
-        setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: '恭喜你！完成了所有默書內容！🎉' }]);
-        setRobotEmotion('happy');
+        onFinish();
       }
     }
   };
 
   // --- Voice Input Logic (STT) ---
-  const toggleListening = () => {
+  const toggleListening = async () => {
     if (isListening) {
       recognitionRef.current?.stop();
-      setIsListening(false);
       return;
     }
 
-    const SpeechRecognition = (window as unknown as IWindow).SpeechRecognition || (window as unknown as IWindow).webkitSpeechRecognition;
-
-    if (!SpeechRecognition) {
+    const recognizer = getSpeechRecognizer();
+    if (!recognizer.isAvailable()) {
       alert("你的瀏覽器不支持語音識別功能 (Browser does not support Speech Recognition)");
       return;
     }
 
-    const recognition = new SpeechRecognition();
-    // Use the independently selected inputLang
-    recognition.lang = inputLang; 
-    recognition.continuous = false;
-    recognition.interimResults = true;
-
-    recognition.onstart = () => {
-      setIsListening(true);
-      // Stop robot speaking if user starts speaking
-      window.speechSynthesis.cancel(); 
-    };
-
-    recognition.onresult = (event: any) => {
-      const transcript = Array.from(event.results)
-        .map((result: any) => result[0].transcript)
-        .join('');
-      setChatInput(transcript);
-    };
-
-    recognition.onerror = (event: any) => {
-      console.error("Speech recognition error", event.error);
+    // Stop robot speaking if user starts speaking
+    cancelSpeech();
+    setIsListening(true);
+    try {
+      // Use the independently selected inputLang; starting throws without microphone permission
+      const session = recognizer.listen(inputLang, setChatInput);
+      recognitionRef.current = session;
+      await session.result;
+    } catch (error) {
+      console.error("Speech recognition error", error);
+    } finally {
+      recognitionRef.current = null;
       setIsListening(false);
-    };
-
-    recognition.onend = () => {
-      setIsListening(false);
-    };
-
-    recognitionRef.current = recognition;
-    recognition.start();
+    }
   };
 
   const cycleInputLang = () => {
@@ -206,23 +231,18 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
 
     const historyForAi = messages.slice(-5).map(m => ({ role: m.role, text: m.text || '' }));
     
-    const context = `Mode: ${mode}. Current Item: ${currentItem.content}. Meaning: ${currentItem.meaning}. Full List: ${items.map(i => i.content).join(', ')}`;
+    const mistakes = currentResult?.answer ? classifyMistakes(currentResult.diff) : [];
+    const context = `Mode: ${mode}. Current Item: ${currentItem.content}. Meaning: ${currentItem.meaning}. Full List: ${items.map(i => i.content).join(', ')}`
+      + (mistakes.length ? `. The child answered "${currentResult.answer}". Mistakes: ${describeMistakes(mistakes)}` : '');
 
     const reply = await chatWithAssistant(historyForAi, chatInput, context);
     
     setMessages(prev => [...prev, { id: Date.now().toString(), role: 'model', text: reply }]);
     setRobotEmotion('idle');
     
-    // Play assistant voice using Gemini TTS (optional, keeps the robot distinct from dictation voice)
-    const audioBase64 = await generateSpeech(reply);
-    if (audioBase64) {
-       try {
-        const audioBytes = decode(audioBase64);
-        const audioContext = getAudioContext();
-        const audioBuffer = await decodeAudioData(audioBytes, audioContext);
-        playAudioBuffer(audioBuffer);
-       } catch (e) { console.error(e); }
-    }
+    // Play assistant voice using Gemini TTS (keeps the robot distinct from the dictation voice).
+    // Queued so it never overlaps dictation audio and stops with cancelSpeech()
+    enqueueSpeech({ text: reply, language: audioLanguage, rate: 1 }, { engine: 'gemini' });
   };
 
   return (
@@ -296,9 +316,28 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
         
         {/* Progress */}
         <div className="w-full max-w-3xl mb-8 flex items-center justify-between">
-            <button onClick={onBack} className="text-slate-400 hover:text-slate-600 font-bold text-sm">
-                ← 退出 (Exit)
-            </button>
+            <div className="flex items-center gap-4">
+                <button onClick={onBack} className="text-slate-400 hover:text-slate-600 font-bold text-sm">
+                    ← 退出 (Exit)
+                </button>
+                <ExportMenu items={items} mode={mode} audioLanguage={audioLanguage} align="left" />
+                <AnnotationSelect value={annotation} onChange={onAnnotationChange} />
+                <button onClick={onExam} className="flex items-center gap-1 text-sm text-slate-500 hover:text-blue-600 font-bold" title="自動朗讀整份默書，小朋友在紙上書寫">
+                    <PenLine className="w-4 h-4" />
+                    模擬默書
+                </button>
+                {audio.engine === 'gemini' && (
+                    <button
+                        onClick={handlePrepareAudio}
+                        disabled={!!preparing}
+                        className="flex items-center gap-1 text-sm text-slate-500 hover:text-blue-600 font-bold disabled:opacity-60"
+                        title="預先下載整份默書的語音，網絡不穩定時仍可練習"
+                    >
+                        <Download className="w-4 h-4" />
+                        {preparing ? `準備中 ${preparing.done}/${preparing.total}` : '準備語音'}
+                    </button>
+                )}
+            </div>
             <div className="flex flex-col items-end">
                 <span className="text-slate-500 font-bold text-sm">進度: {currentIndex + 1} / {items.length}</span>
                 <div className="w-32 h-2 bg-gray-200 rounded-full mt-1">
@@ -314,24 +353,49 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
         <div className="w-full max-w-3xl bg-white rounded-3xl shadow-xl p-8 md:p-12 text-center relative border-4 border-white ring-4 ring-blue-50 flex flex-col items-center justify-center min-h-[400px]">
             
             <span className="inline-block px-4 py-1 bg-blue-100 text-blue-600 rounded-full text-sm font-bold mb-8">
-               {mode === 'paragraph' ? '段落默寫' : mode === 'idiom' ? '成語默寫' : '詞語默寫'}
+               {mode === 'paragraph' ? '段落默寫' : mode === 'idiom' ? '成語默寫' : mode === 'character' ? '生字默寫' : '詞語默寫'}
             </span>
 
             {/* Content Display */}
             <div className="flex-1 flex flex-col items-center justify-center w-full mb-8">
                {stage === 'revealed' ? (
                  <div className="animate-in fade-in zoom-in duration-300 w-full">
+                    {/* Answer Check Result */}
+                    {currentResult && currentResult.answer && (
+                        <div className="mb-8 pb-6 border-b border-dashed border-slate-200">
+                            <AnswerDiff result={currentResult} large={mode !== 'paragraph'} />
+                        </div>
+                    )}
                     <h1 className={`${mode === 'paragraph' ? 'text-2xl leading-loose text-left' : 'text-6xl text-center'} font-black text-slate-800 tracking-wider mb-4`}>
-                        {currentItem.content}
+                        <RubyText text={currentItem.content} annotation={annotation} item={currentItem} />
                     </h1>
-                    {/* Sub Content (Pinyin) */}
-                    {currentItem.subContent && (
-                        <p className="text-xl text-blue-500 font-medium mb-2">{currentItem.subContent}</p>
+                    {/* Radical, strokes and words for single characters */}
+                    {mode === 'character' && (
+                        <div className="mb-4 space-y-2 text-slate-500">
+                            <p className="text-lg">
+                                {currentItem.radical && <span className="mr-4">部首：<span className="font-bold text-slate-700">{currentItem.radical}</span></span>}
+                                {!!currentItem.strokeCount && <span>筆畫：<span className="font-bold text-slate-700">{currentItem.strokeCount}</span></span>}
+                            </p>
+                            {currentItem.commonWords && currentItem.commonWords.length > 0 && (
+                                <div className="flex flex-wrap justify-center gap-2">
+                                    {currentItem.commonWords.map(word => (
+                                        <span key={word} className="px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-lg">{word}</span>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
                     )}
                     {/* Meaning */}
                     {currentItem.meaning && (
                         <p className="text-lg text-slate-400">{currentItem.meaning}</p>
                     )}
+                    <ReadAloudPanel
+                        key={currentItem.id}
+                        item={currentItem}
+                        audioLanguage={audioLanguage}
+                        onModelReading={handlePlayAudio}
+                        onEmotion={setRobotEmotion}
+                    />
                  </div>
                ) : (
                  <div className="w-full">
@@ -357,9 +421,33 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
                         <span className="absolute -inset-1 rounded-full bg-orange-400 opacity-30 group-hover:animate-ping"></span>
                     </button>
                     
-                    <p className="mt-6 text-slate-400 text-sm">
+                    <p className="mt-6 mb-2 text-slate-400 text-sm">
                         {audioLanguage === 'cantonese' ? '正在使用粵語朗讀' : '正在使用普通話朗讀'}
                     </p>
+                    <VoicePicker value={audio} onChange={onAudioChange} language={audioLanguage} />
+
+                    {/* Answer Input */}
+                    <div className="mt-8 w-full">
+                        {mode === 'paragraph' ? (
+                            <textarea
+                                className="w-full h-28 p-4 border-2 border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-100 focus:border-blue-400 outline-none transition-all text-xl resize-none"
+                                placeholder="在此寫下你聽到的句子（包括標點符號）..."
+                                value={answer}
+                                onChange={(e) => setAnswer(e.target.value)}
+                            />
+                        ) : (
+                            <input
+                                type="text"
+                                className="w-full p-4 border-2 border-slate-200 rounded-xl focus:ring-4 focus:ring-blue-100 focus:border-blue-400 outline-none transition-all text-3xl text-center tracking-widest"
+                                placeholder="在此寫下答案..."
+                                value={answer}
+                                onChange={(e) => setAnswer(e.target.value)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter' && !e.nativeEvent.isComposing && answer.trim()) handleSubmitAnswer();
+                                }}
+                            />
+                        )}
+                    </div>
                  </div>
                )}
             </div>
@@ -367,13 +455,23 @@ const Practice: React.FC<PracticeProps> = ({ items, mode, audioLanguage, onBack
             {/* Action Bar */}
             <div className="w-full border-t border-slate-100 pt-8 mt-auto">
                {stage === 'reading' ? (
-                  <button 
-                    onClick={handleNext}
-                    className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-xl shadow-lg flex items-center justify-center gap-3"
-                  >
-                    <Eye className="w-6 h-6" />
-                    查看答案 (Check Answer)
-                  </button>
+                  answer.trim() ? (
+                    <button 
+                      onClick={handleSubmitAnswer}
+                      className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-xl shadow-lg flex items-center justify-center gap-3"
+                    >
+                      <CheckCircle2 className="w-6 h-6" />
+                      提交答案 (Submit)
+                    </button>
+                  ) : (
+                    <button 
+                      onClick={handleNext}
+                      className="w-full py-4 bg-blue-600 hover:bg-blue-700 text-white rounded-xl font-bold text-xl shadow-lg flex items-center justify-center gap-3"
+                    >
+                      <Eye className="w-6 h-6" />
+                      查看答案 (Check Answer)
+                    </button>
+                  )
                ) : (
                   <div className="flex gap-4">
                      <button 
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Annotation, DictationItem, GridStyle, PracticeGridSettings } from '../types';
+import { GRID_CELL_MM, GRID_INDENT_MM, buildPracticeGrid } from '../services/practiceGrid';
+import RubyText from './RubyText';
+
+interface PracticeGridProps {
+  items: DictationItem[];
+  annotation: Annotation;
+  settings: PracticeGridSettings;
+}
+
+interface GridCellProps {
+  style: GridStyle;
+  sizeMm: number;
+  char?: string; // Tracing character, drawn in light grey
+}
+
+// One square drawn in SVG so the guide lines stay crisp at any print size
+const GridCell: React.FC<GridCellProps> = ({ style, sizeMm, char }) => (
+  <svg viewBox="0 0 100 100" style={{ width: `${sizeMm}mm`, height: `${sizeMm}mm` }} className="block -ml-px first:ml-0">
+    <rect x="0.5" y="0.5" width="99" height="99" fill="white" stroke="#dc2626" strokeWidth="1.5" />
+    <g stroke="#fca5a5" strokeWidth="1" strokeDasharray="4 3">
+      <line x1="50" y1="0" x2="50" y2="100" />
+      <line x1="0" y1="50" x2="100" y2="50" />
+      {style === 'mi' && (
+        <>
+          <line x1="0" y1="0" x2="100" y2="100" />
+          <line x1="100" y1="0" x2="0" y2="100" />
+        </>
+      )}
+    </g>
+    {char && (
+      <text x="50" y="53" textAnchor="middle" dominantBaseline="middle" fontSize="76" fill="#d1d5db" fontFamily="'Kaiti TC', 'STKaiti', 'BiauKai', serif">
+        {char}
+      </text>
+    )}
+  </svg>
+);
+
+const PracticeGrid: React.FC<PracticeGridProps> = ({ items, annotation, settings }) => {
+  const sizeMm = GRID_CELL_MM[settings.size];
+  const blocks = buildPracticeGrid(items, annotation, settings);
+
+  if (blocks.length === 0) {
+    return <p className="text-center text-slate-400">沒有可練習的中文字 (No Chinese characters to practise)</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {blocks.map(({ item, lines }, idx) => (
+        <div key={item.id}>
+          {/* Keep the heading on the same page as its first line of squares */}
+          <div className="flex items-baseline gap-2 text-xl mb-2 break-after-avoid">
+            <span className="font-bold w-6">{idx + 1}.</span>
+            <RubyText text={item.content} annotation={annotation} item={item} />
+          </div>
+          <div className="space-y-1" style={{ paddingLeft: `${GRID_INDENT_MM}mm` }}>
+            {lines.map((line, lineIdx) => (
+              <div key={lineIdx} className="break-inside-avoid">
+                {line.reading && (
+                  <div className="text-xs text-slate-500 text-center font-sans print:text-black" style={{ width: `${sizeMm}mm` }}>
+                    {line.reading}
+                  </div>
+                )}
+                <div className="flex">
+                  {Array.from({ length: line.cells }, (_, cellIdx) => (
+                    <GridCell
+                      key={cellIdx}
+                      style={settings.style}
+                      sizeMm={sizeMm}
+                      char={line.hasTracing && cellIdx === 0 ? line.char : undefined}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PracticeGrid;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { GridSize, GridStyle, PracticeGridSettings } from '../types';
+import { MAX_GRID_REPEATS } from '../services/practiceGrid';
+
+interface PracticeGridSettingsPanelProps {
+  settings: PracticeGridSettings;
+  onChange: (settings: PracticeGridSettings) => void;
+}
+
+const STYLE_LABELS: Record<GridStyle, string> = {
+  tian: '田字格',
+  mi: '米字格',
+};
+
+const SIZE_LABELS: Record<GridSize, string> = {
+  small: '小格',
+  medium: '中格',
+  large: '大格',
+};
+
+const selectClass = 'px-2 py-1 border border-slate-200 rounded-lg text-sm bg-white outline-none focus:ring-2 focus:ring-blue-100';
+
+const PracticeGridSettingsPanel: React.FC<PracticeGridSettingsPanelProps> = ({ settings, onChange }) => (
+  <div className="flex items-center gap-2">
+    <select
+      value={settings.style}
+      onChange={(e) => onChange({ ...settings, style: e.target.value as GridStyle })}
+      className={selectClass}
+    >
+      {(Object.keys(STYLE_LABELS) as GridStyle[]).map(style => (
+        <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+      ))}
+    </select>
+    <select
+      value={settings.size}
+      onChange={(e) => onChange({ ...settings, size: e.target.value as GridSize })}
+      className={selectClass}
+    >
+      {(Object.keys(SIZE_LABELS) as GridSize[]).map(size => (
+        <option key={size} value={size}>{SIZE_LABELS[size]}</option>
+      ))}
+    </select>
+    <label className="flex items-center gap-1 text-sm text-slate-600" title="每個字練習的次數 (Repeats per character)">
+      <input
+        type="number"
+        min={1}
+        max={MAX_GRID_REPEATS}
+        value={settings.repeats}
+        onChange={(e) => onChange({ ...settings, repeats: Math.min(MAX_GRID_REPEATS, Math.max(1, Number(e.target.value) || 1)) })}
+        className="w-14 px-2 py-1 border border-slate-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-100"
+      />
+      次
+    </label>
+  </div>
+);
+
+export default PracticeGridSettingsPanel;
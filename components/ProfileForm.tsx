@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { DictationMode } from '../types';
+import { MODE_LABELS } from '../constants';
+import { GRADES, NewChildProfile, PROFILE_AVATARS } from '../services/profileStore';
+import { Check, X } from 'lucide-react';
+
+interface ProfileFormProps {
+  initial: NewChildProfile;
+  onSave: (profile: NewChildProfile) => void;
+  onCancel: () => void;
+}
+
+const DIFFICULTY_LABELS: Record<NewChildProfile['difficulty'], string> = {
+  easy: '淺 (Easy)',
+  medium: '中 (Medium)',
+  hard: '深 (Hard)',
+};
+
+const ProfileForm: React.FC<ProfileFormProps> = ({ initial, onSave, onCancel }) => {
+  const [profile, setProfile] = useState<NewChildProfile>(initial);
+
+  const update = (changes: Partial<NewChildProfile>) => setProfile(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    if (!profile.name.trim()) {
+      alert("請輸入名字 (Please enter a name)");
+      return;
+    }
+    onSave({ ...profile, name: profile.name.trim() });
+  };
+
+  const selectClass = "px-3 py-2 border border-slate-200 rounded-lg bg-white outline-none focus:ring-2 focus:ring-blue-100";
+
+  return (
+    <div className="w-full bg-white rounded-2xl shadow-xl p-6 border-2 border-blue-100 space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {PROFILE_AVATARS.map(avatar => (
+          <button
+            key={avatar}
+            onClick={() => update({ avatar })}
+            className={`w-12 h-12 text-2xl rounded-xl border-2 transition-all ${profile.avatar === avatar ? 'border-blue-500 bg-blue-50' : 'border-slate-100 hover:border-blue-200'}`}
+          >
+            {avatar}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-slate-400">名字</span>
+          <input
+            type="text"
+            className="px-3 py-2 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+            value={profile.name}
+            onChange={(e) => update({ name: e.target.value })}
+            autoFocus
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-slate-400">年級</span>
+          <select value={profile.grade} onChange={(e) => update({ grade: e.target.value })} className={selectClass}>
+            {GRADES.map(grade => <option key={grade} value={grade}>{grade}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-slate-400">默書語言</span>
+          <select value={profile.audioLanguage} onChange={(e) => update({ audioLanguage: e.target.value as NewChildProfile['audioLanguage'] })} className={selectClass}>
+            <option value="cantonese">粵語</option>
+            <option value="mandarin">普通話</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-slate-400">預設模式</span>
+          <select value={profile.mode} onChange={(e) => update({ mode: e.target.value as DictationMode })} className={selectClass}>
+            {(Object.keys(MODE_LABELS) as DictationMode[]).map(mode => <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold text-slate-400">填充題難度</span>
+          <select value={profile.difficulty} onChange={(e) => update({ difficulty: e.target.value as NewChildProfile['difficulty'] })} className={selectClass}>
+            {(Object.keys(DIFFICULTY_LABELS) as NewChildProfile['difficulty'][]).map(difficulty => (
+              <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="flex items-center gap-1 px-4 py-2 text-slate-500 hover:bg-slate-50 rounded-lg font-bold">
+          <X className="w-4 h-4" />
+          取消
+        </button>
+        <button onClick={handleSave} className="flex items-center gap-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-bold">
+          <Check className="w-4 h-4" />
+          儲存
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileForm;
@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { ChildProfile } from '../types';
+import { DEFAULT_PROFILE, NewChildProfile, createProfile, deleteProfile, exportProfile, getProfiles, updateProfile } from '../services/profileStore';
+import { downloadFile } from '../services/listFile';
+import { MODE_LABELS } from '../constants';
+import ProfileForm from './ProfileForm';
+import { BookOpen, Plus, Pencil, Download, Trash2 } from 'lucide-react';
+
+interface ProfilePickerProps {
+  onSelect: (profile: ChildProfile) => void;
+}
+
+// Start screen: each child picks their own profile before Setup
+const ProfilePicker: React.FC<ProfilePickerProps> = ({ onSelect }) => {
+  const [profiles, setProfiles] = useState<ChildProfile[] | null>(null);
+  const [editing, setEditing] = useState<ChildProfile | 'new' | null>(null);
+
+  const refresh = async () => {
+    try {
+      const loaded = await getProfiles();
+      setProfiles(loaded);
+      if (loaded.length === 0) setEditing('new');
+    } catch (error) {
+      console.error("Error loading profiles:", error);
+      setProfiles([]);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSave = async (fields: NewChildProfile) => {
+    try {
+      if (editing === 'new') await createProfile(fields);
+      else if (editing) await updateProfile({ ...editing, ...fields });
+      setEditing(null);
+      refresh();
+    } catch (error) {
+      console.error("Error saving profile:", error);
+      alert("儲存失敗，請再試一次。(Save failed)");
+    }
+  };
+
+  const handleExport = async (profile: ChildProfile) => {
+    try {
+      downloadFile(`默書紀錄-${profile.name}.json`, await exportProfile(profile), 'application/json');
+    } catch (error) {
+      console.error("Error exporting profile:", error);
+      alert("匯出失敗，請再試一次。(Export failed)");
+    }
+  };
+
+  const handleDelete = async (profile: ChildProfile) => {
+    if (!window.confirm(`確定要刪除「${profile.name}」及其所有默書、溫習和成績紀錄嗎？此操作無法復原。`)) return;
+    try {
+      await deleteProfile(profile.id);
+    } catch (error) {
+      console.error("Error deleting profile:", error);
+      alert("刪除失敗，請再試一次。(Delete failed)");
+    }
+    refresh();
+  };
+
+  if (!profiles) return null;
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[90vh] p-6 max-w-3xl mx-auto">
+      <div className="text-center mb-8">
+        <h1 className="text-4xl font-bold text-blue-600 mb-2 flex items-center justify-center gap-3">
+          <BookOpen className="w-10 h-10" />
+          默書小助手
+        </h1>
+        <p className="text-slate-500">{profiles.length > 0 ? '誰來默書？(Who is practising?)' : '先為小朋友建立個人檔案 (Create a profile first)'}</p>
+      </div>
+
+      {editing ? (
+        <ProfileForm
+          initial={editing === 'new' ? DEFAULT_PROFILE : editing}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <div className="w-full grid grid-cols-2 md:grid-cols-3 gap-4">
+          {profiles.map(profile => (
+            <div key={profile.id} className="relative bg-white rounded-2xl shadow-md border-2 border-blue-50 hover:border-blue-300 transition-all">
+              <button onClick={() => onSelect(profile)} className="w-full flex flex-col items-center p-6">
+                <span className="text-6xl mb-3">{profile.avatar}</span>
+                <span className="text-xl font-bold text-slate-700">{profile.name}</span>
+                <span className="text-sm text-slate-400">
+                  {[profile.grade, profile.audioLanguage === 'cantonese' ? '粵語' : '普通話', MODE_LABELS[profile.mode]].filter(Boolean).join(' · ')}
+                </span>
+              </button>
+              {/* Always shown: the shared tablet has no hover */}
+              <div className="absolute top-2 right-2 flex gap-1">
+                <button onClick={() => setEditing(profile)} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded" title="編輯">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleExport(profile)} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded" title="匯出紀錄">
+                  <Download className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(profile)} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="刪除">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => setEditing('new')}
+            className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-slate-300 rounded-2xl text-slate-500 hover:bg-white hover:border-blue-400 hover:text-blue-500 transition-all font-bold"
+          >
+            <Plus className="w-10 h-10 mb-2" />
+            新增小朋友
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProfilePicker;
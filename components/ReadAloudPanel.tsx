@@ -0,0 +1,133 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictationItem, RobotEmotion } from '../types';
+import { ReadAloudScore, ReadingReaction, readingEmotion, scoreReading } from '../services/readAloud';
+import { RecognitionSession, getSpeechRecognizer, recognitionLang } from '../services/speechRecognizer';
+import { cancelSpeech } from '../services/audioUtils';
+import { Mic, Square, Volume2 } from 'lucide-react';
+
+interface ReadAloudPanelProps {
+  item: DictationItem;
+  audioLanguage: 'mandarin' | 'cantonese';
+  onModelReading: () => void; // Plays the item so the child can copy it
+  onEmotion: (emotion: RobotEmotion) => void;
+}
+
+const FEEDBACK: Record<ReadingReaction, string> = {
+  happy: '讀得很好！(Well read!)',
+  idle: '差一點，再試一次！(Almost, try again!)',
+  sad: '不要緊，先聽一次再讀吧。(Listen once more, then read)',
+};
+
+// 跟我讀: the child reads the item aloud and sees which characters were heard
+const ReadAloudPanel: React.FC<ReadAloudPanelProps> = ({ item, audioLanguage, onModelReading, onEmotion }) => {
+  const [session, setSession] = useState<RecognitionSession | null>(null);
+  const [heard, setHeard] = useState('');
+  const [score, setScore] = useState<ReadAloudScore | null>(null);
+  const sessionRef = useRef<RecognitionSession | null>(null);
+
+  useEffect(() => () => sessionRef.current?.stop(), []);
+
+  const handleListen = async () => {
+    const recognizer = getSpeechRecognizer();
+    if (!recognizer.isAvailable()) {
+      alert("你的瀏覽器不支持語音識別功能 (Browser does not support Speech Recognition)");
+      return;
+    }
+    cancelSpeech();
+    setScore(null);
+    setHeard('');
+    onEmotion('thinking');
+
+    let listening: RecognitionSession;
+    try {
+      // Throws without microphone permission
+      listening = recognizer.listen(recognitionLang(audioLanguage), setHeard);
+    } catch (error) {
+      console.error("Speech recognition error", error);
+      onEmotion('idle');
+      return;
+    }
+    sessionRef.current = listening;
+    setSession(listening);
+    try {
+      const transcript = await listening.result;
+      if (sessionRef.current !== listening) return;
+      if (!transcript.trim()) {
+        onEmotion('idle');
+        return;
+      }
+      const result = scoreReading(item, transcript);
+      setScore(result);
+      onEmotion(readingEmotion(result));
+    } catch (error) {
+      console.error("Speech recognition error", error);
+      onEmotion('idle');
+    } finally {
+      if (sessionRef.current === listening) {
+        sessionRef.current = null;
+        setSession(null);
+      }
+    }
+  };
+
+  const reaction = score ? readingEmotion(score) : 'idle';
+
+  return (
+    <div className="w-full mt-6 p-4 bg-orange-50/60 border-2 border-orange-100 rounded-2xl">
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <span className="font-bold text-slate-600">跟我讀 (Read aloud)</span>
+        <div className="flex gap-2">
+          <button onClick={onModelReading} disabled={!!session} className="flex items-center gap-1 px-3 py-1.5 bg-white hover:bg-slate-50 text-slate-600 rounded-lg text-sm font-bold border border-slate-200 disabled:opacity-50">
+            <Volume2 className="w-4 h-4" />
+            示範
+          </button>
+          {session ? (
+            <button onClick={() => session.stop()} className="flex items-center gap-1 px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white rounded-lg text-sm font-bold animate-pulse">
+              <Square className="w-4 h-4" />
+              讀完了
+            </button>
+          ) : (
+            <button onClick={handleListen} className="flex items-center gap-1 px-3 py-1.5 bg-orange-400 hover:bg-orange-500 text-white rounded-lg text-sm font-bold">
+              <Mic className="w-4 h-4" />
+              {score ? '再讀一次' : '開始讀'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {session && (
+        <p className="text-slate-500 text-lg min-h-[1.75rem]">{heard || '請大聲讀出來…'}</p>
+      )}
+
+      {score && !session && (
+        <div>
+          <div className="flex flex-wrap justify-center gap-1 text-3xl font-bold">
+            {score.diff.map((d, idx) => {
+              switch (d.status) {
+                case 'correct':
+                  return <span key={idx} className="text-green-600">{d.expected}</span>;
+                case 'wrong':
+                  return (
+                    <span key={idx} className="relative text-red-500 bg-red-50 rounded px-0.5" title={`聽到「${d.actual}」`}>
+                      {d.expected}
+                      <span className="absolute -bottom-4 left-0 right-0 text-center text-xs text-slate-400 font-medium">{d.actual}</span>
+                    </span>
+                  );
+                case 'missing':
+                  return <span key={idx} className="text-slate-300 border-b-2 border-dashed border-amber-300" title="沒有讀到 (Not heard)">{d.expected}</span>;
+                case 'extra':
+                  return null;
+              }
+            })}
+          </div>
+          <p className={`mt-6 text-center font-bold ${reaction === 'happy' ? 'text-green-600' : reaction === 'sad' ? 'text-red-500' : 'text-amber-600'}`}>
+            {Math.round(score.accuracy * 100)}% · {FEEDBACK[reaction]}
+          </p>
+          <p className="mt-1 text-center text-xs text-slate-400">聽到：{score.transcript}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReadAloudPanel;
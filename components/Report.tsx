@@ -0,0 +1,124 @@
+import React from 'react';
+import { DictationItem, DictationMode, ItemResult } from '../types';
+import { classifyMistakes } from '../services/mistakeClassifier';
+import MistakeTags from './MistakeTags';
+import { ArrowLeft, CheckCircle2, XCircle, MinusCircle, RotateCcw, Printer, Trophy, Volume2, Clock } from 'lucide-react';
+
+interface ReportProps {
+  items: DictationItem[];
+  mode: DictationMode;
+  results: Record<string, ItemResult>;
+  onRetry: (items: DictationItem[]) => void;
+  onPrint: (items: DictationItem[]) => void;
+  onBack: () => void;
+}
+
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}分${seconds.toString().padStart(2, '0')}秒` : `${seconds}秒`;
+};
+
+const Report: React.FC<ReportProps> = ({ items, mode, results, onRetry, onPrint, onBack }) => {
+  const wrongItems = items.filter(item => !results[item.id]?.isCorrect);
+  const correctItems = items.length - wrongItems.length;
+
+  // Score by characters so a long sentence with one slip is not worth zero
+  const totals = items.reduce(
+    (acc, item) => {
+      const result = results[item.id];
+      acc.correct += result?.correctCount || 0;
+      acc.total += result?.totalCount || Array.from(item.content).length;
+      return acc;
+    },
+    { correct: 0, total: 0 }
+  );
+  const score = totals.total > 0 ? Math.round((totals.correct / totals.total) * 100) : 0;
+  const totalTime = items.reduce((sum, item) => sum + (results[item.id]?.timeSpentMs || 0), 0);
+
+  const scoreColor = score >= 90 ? 'text-green-500' : score >= 60 ? 'text-orange-400' : 'text-red-500';
+
+  return (
+    <div className="min-h-screen p-6 max-w-3xl mx-auto">
+      <button onClick={onBack} className="flex items-center gap-2 text-slate-400 hover:text-slate-600 font-bold text-sm mb-6">
+        <ArrowLeft className="w-4 h-4" />
+        返回主頁 (Home)
+      </button>
+
+      {/* Score Summary */}
+      <div className="bg-white rounded-3xl shadow-xl p-8 border-4 border-white ring-4 ring-blue-50 text-center mb-6">
+        <Trophy className="w-12 h-12 text-yellow-400 mx-auto mb-2" />
+        <h1 className="text-2xl font-bold text-slate-700 mb-4">默書報告 (Report)</h1>
+        <div className={`text-7xl font-black ${scoreColor}`}>{score}<span className="text-3xl">分</span></div>
+        <div className="flex justify-center gap-6 mt-4 text-slate-500 font-bold text-sm">
+          <span>全對: {correctItems} / {items.length}</span>
+          <span className="flex items-center gap-1"><Clock className="w-4 h-4" />{formatDuration(totalTime)}</span>
+        </div>
+      </div>
+
+      {/* Actions */}
+      {wrongItems.length > 0 && (
+        <div className="flex gap-4 mb-6">
+          <button
+            onClick={() => onPrint(wrongItems)}
+            className="flex-1 py-4 rounded-xl font-bold text-lg flex items-center justify-center gap-2 transition-all border-2 bg-white text-indigo-600 border-indigo-200 hover:bg-indigo-50 hover:border-indigo-300"
+          >
+            <Printer className="w-5 h-5" />
+            錯題練習卷 (Print Wrong)
+          </button>
+          <button
+            onClick={() => onRetry(wrongItems)}
+            className="flex-1 py-4 rounded-xl text-white font-bold text-lg flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 shadow-blue-200 shadow-lg"
+          >
+            <RotateCcw className="w-5 h-5" />
+            重做錯題 ({wrongItems.length})
+          </button>
+        </div>
+      )}
+
+      {/* Per-item Results */}
+      <div className="bg-white rounded-2xl shadow-sm border border-blue-100 divide-y divide-slate-100">
+        {items.map((item, idx) => {
+          const result = results[item.id];
+          const attempted = !!result?.answer;
+
+          return (
+            <div key={item.id} className="p-4 flex items-start gap-4">
+              <span className="font-bold text-slate-400 w-6 pt-1">{idx + 1}.</span>
+              <div className="flex-1 min-w-0">
+                <div className={`${mode === 'paragraph' ? 'text-lg' : 'text-2xl'} font-bold text-slate-800`}>{item.content}</div>
+                {attempted && !result.isCorrect && (
+                  <>
+                    <div className="text-sm text-red-500 mt-1">
+                      你的答案: {result.answer}
+                    </div>
+                    <div className="flex mt-2">
+                      <MistakeTags mistakes={classifyMistakes(result.diff)} />
+                    </div>
+                  </>
+                )}
+                <div className="flex gap-4 mt-2 text-xs text-slate-400">
+                  <span className="flex items-center gap-1"><Volume2 className="w-3 h-3" />播放 {result?.playCount || 0} 次</span>
+                  <span className="flex items-center gap-1"><Clock className="w-3 h-3" />{formatDuration(result?.timeSpentMs || 0)}</span>
+                  {attempted && <span>{result.correctCount} / {result.totalCount} 字</span>}
+                </div>
+              </div>
+              <div className="pt-1">
+                {!attempted ? (
+                  <span className="flex items-center gap-1 text-slate-400 text-sm font-bold"><MinusCircle className="w-5 h-5" />未作答</span>
+                ) : result.isCorrect ? (
+                  <CheckCircle2 className="w-6 h-6 text-green-500" />
+                ) : (
+                  <XCircle className="w-6 h-6 text-red-500" />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Report;
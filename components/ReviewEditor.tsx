@@ -0,0 +1,256 @@
+import React, { useState } from 'react';
+import { DictationItem, DictationMode } from '../types';
+import { checkCloze } from '../services/clozeUtils';
+import { toJyutping } from '../services/romanization';
+import { splitSentences, splitAtComma, splitWordList } from '../services/textUtils';
+import { ArrowLeft, ArrowUp, ArrowDown, Trash2, Plus, Merge, Split, AlertTriangle, Check, Pilcrow } from 'lucide-react';
+
+interface ReviewEditorProps {
+  items: DictationItem[];
+  mode: DictationMode;
+  confirmLabel: string;
+  onConfirm: (items: DictationItem[]) => void;
+  onCancel: () => void;
+}
+
+type EditableField =
+  | 'content' | 'subContent' | 'jyutping' | 'meaning' | 'example' | 'clozeContent'
+  | 'radical' | 'strokeCount' | 'commonWords' | 'cueWord';
+
+const fieldText = (item: DictationItem, field: EditableField): string => {
+  if (field === 'strokeCount') return item.strokeCount?.toString() || '';
+  if (field === 'commonWords') return (item.commonWords || []).join('、');
+  return item[field] || '';
+};
+
+// Empty words are kept while typing so a trailing "、" is not swallowed
+const fieldChanges = (field: EditableField, text: string): Partial<DictationItem> => {
+  if (field === 'strokeCount') return { strokeCount: text.trim() ? parseInt(text, 10) || undefined : undefined };
+  if (field === 'commonWords') return { commonWords: splitWordList(text) };
+  return { [field]: text };
+};
+
+let nextKey = 0;
+const newKey = () => `new-${Date.now()}-${nextKey++}`;
+
+// Splits a paragraph sentence, keeping the cloze aligned when its punctuation allows
+const splitItem = (item: DictationItem): DictationItem[] => {
+  let parts = splitSentences(item.content);
+  let clozeParts = splitSentences(item.clozeContent || '');
+  if (parts.length < 2) {
+    parts = splitAtComma(item.content);
+    clozeParts = splitAtComma(item.clozeContent || '');
+  }
+  if (parts.length < 2) return [item];
+
+  return parts.map((content, idx) => ({
+    ...item,
+    id: idx === 0 ? item.id : newKey(),
+    content,
+    clozeContent: clozeParts.length === parts.length ? clozeParts[idx] : '',
+    meaning: idx === 0 ? item.meaning : '',
+    isNewParagraph: idx === 0 ? item.isNewParagraph : false,
+  }));
+};
+
+const mergeItems = (first: DictationItem, second: DictationItem): DictationItem => ({
+  ...first,
+  content: first.content + second.content,
+  clozeContent: (first.clozeContent || '') + (second.clozeContent || ''),
+  meaning: [first.meaning, second.meaning].filter(Boolean).join(' '),
+});
+
+const ReviewEditor: React.FC<ReviewEditorProps> = ({ items: initialItems, mode, confirmLabel, onConfirm, onCancel }) => {
+  const [items, setItems] = useState<DictationItem[]>(initialItems);
+
+  const updateItem = (index: number, changes: Partial<DictationItem>) => {
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const changeField = (index: number, field: EditableField, text: string) => {
+    const changes = fieldChanges(field, text);
+    // Jyutping was filled in for the old content; read the corrected content instead
+    if (field === 'content' && mode !== 'paragraph') changes.jyutping = toJyutping(text);
+    updateItem(index, changes);
+  };
+
+  const moveItem = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= items.length) return;
+    setItems(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removeItem = (index: number) => {
+    setItems(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addItem = () => {
+    setItems(prev => [...prev, { id: newKey(), content: '', subContent: '', jyutping: '', meaning: '', example: '', clozeContent: '', isNewParagraph: false }]);
+  };
+
+  const mergeWithNext = (index: number) => {
+    if (index >= items.length - 1) return;
+    setItems(prev => [...prev.slice(0, index), mergeItems(prev[index], prev[index + 1]), ...prev.slice(index + 2)]);
+  };
+
+  const splitAt = (index: number) => {
+    setItems(prev => [...prev.slice(0, index), ...splitItem(prev[index]), ...prev.slice(index + 1)]);
+  };
+
+  const checkItem = (item: DictationItem): string | null => {
+    if (!item.content.trim()) return '內容不能留空 (Content is empty)';
+    if (mode === 'character' && Array.from(item.content.trim()).length !== 1) return '生字只可以有一個字 (One character only)';
+    return checkCloze(item, mode);
+  };
+
+  const issues = items.map(checkItem);
+  const issueCount = issues.filter(Boolean).length;
+
+  const handleConfirm = () => {
+    const cleaned = items.filter(item => item.content.trim());
+    if (issueCount > 0 && !window.confirm(`有 ${issueCount} 項需要檢查，仍然繼續嗎？`)) return;
+    // Renumber ids the same way analyzeMaterial does
+    onConfirm(cleaned.map((item, idx) => ({
+      ...item,
+      id: idx.toString(),
+      content: item.content.trim(),
+      commonWords: item.commonWords?.filter(Boolean),
+    })));
+  };
+
+  const fields: { key: EditableField; label: string; wide?: boolean }[] =
+    mode === 'paragraph'
+      ? [
+          { key: 'content', label: '句子', wide: true },
+          { key: 'clozeContent', label: '填充題', wide: true },
+          { key: 'meaning', label: '意思' },
+        ]
+      : mode === 'character'
+      ? [
+          { key: 'content', label: '生字' },
+          { key: 'cueWord', label: '提示詞' },
+          { key: 'radical', label: '部首' },
+          { key: 'strokeCount', label: '筆畫' },
+          { key: 'subContent', label: '拼音' },
+          { key: 'jyutping', label: '粵拼' },
+          { key: 'commonWords', label: '常用詞 (以「、」分隔)', wide: true },
+          { key: 'meaning', label: '解釋', wide: true },
+        ]
+      : mode === 'idiom'
+      ? [
+          { key: 'content', label: '成語' },
+          { key: 'subContent', label: '拼音' },
+          { key: 'jyutping', label: '粵拼' },
+          { key: 'meaning', label: '解釋', wide: true },
+        ]
+      : [
+          { key: 'content', label: '詞語' },
+          { key: 'subContent', label: '拼音' },
+          { key: 'jyutping', label: '粵拼' },
+          { key: 'meaning', label: '解釋' },
+          { key: 'example', label: '例句', wide: true },
+          { key: 'clozeContent', label: '填充題', wide: true },
+        ];
+
+  return (
+    <div className="min-h-screen p-6 max-w-5xl mx-auto">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onCancel} className="flex items-center gap-2 text-slate-500 hover:text-slate-700 font-bold">
+          <ArrowLeft className="w-5 h-5" />
+          返回
+        </button>
+        <h1 className="text-2xl font-bold text-slate-700">檢查及修改 (Review)</h1>
+        <span className={`text-sm font-bold ${issueCount ? 'text-amber-500' : 'text-green-600'}`}>
+          {issueCount ? `${issueCount} 項需要檢查` : '全部正常'}
+        </span>
+      </div>
+
+      <div className="space-y-3">
+        {items.map((item, idx) => (
+          <div key={item.id} className={`bg-white rounded-2xl shadow-sm border-2 p-4 ${issues[idx] ? 'border-amber-200' : 'border-blue-50'}`}>
+            <div className="flex items-start gap-3">
+              <span className="font-bold text-slate-400 w-6 pt-2">{idx + 1}.</span>
+
+              <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-2">
+                {fields.map(field => (
+                  <label key={field.key} className={`flex flex-col gap-1 ${field.wide ? 'md:col-span-2' : ''}`}>
+                    <span className="text-xs font-bold text-slate-400">{field.label}</span>
+                    <input
+                      type="text"
+                      className="px-3 py-2 border border-slate-200 rounded-lg outline-none focus:ring-2 focus:ring-blue-100 focus:border-blue-400"
+                      value={fieldText(item, field.key)}
+                      onChange={(e) => changeField(idx, field.key, e.target.value)}
+                    />
+                  </label>
+                ))}
+
+                {issues[idx] && (
+                  <p className="md:col-span-2 text-xs text-amber-600 flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3" />
+                    {issues[idx]}
+                  </p>
+                )}
+              </div>
+
+              {/* Row Actions */}
+              <div className="flex flex-col gap-1">
+                <div className="flex gap-1">
+                  <button onClick={() => moveItem(idx, -1)} disabled={idx === 0} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded disabled:opacity-30" title="上移">
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => moveItem(idx, 1)} disabled={idx === items.length - 1} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded disabled:opacity-30" title="下移">
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => removeItem(idx)} className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded" title="刪除">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                {mode === 'paragraph' && (
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => updateItem(idx, { isNewParagraph: !item.isNewParagraph })}
+                      className={`p-1.5 rounded ${item.isNewParagraph ? 'bg-blue-100 text-blue-600' : 'text-slate-400 hover:bg-slate-50'}`}
+                      title="新段落"
+                    >
+                      <Pilcrow className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => mergeWithNext(idx)} disabled={idx === items.length - 1} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded disabled:opacity-30" title="與下一句合併">
+                      <Merge className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => splitAt(idx)} className="p-1.5 text-slate-400 hover:text-slate-700 hover:bg-slate-50 rounded" title="拆分句子">
+                      <Split className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-4 mt-6">
+        <button
+          onClick={addItem}
+          className="flex-1 py-3 border-2 border-dashed border-slate-300 rounded-xl flex items-center justify-center gap-2 text-slate-500 hover:bg-white hover:border-blue-400 hover:text-blue-500 transition-all font-bold"
+        >
+          <Plus className="w-5 h-5" />
+          新增項目
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={items.every(item => !item.content.trim())}
+          className="flex-1 py-3 rounded-xl text-white font-bold text-lg flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 shadow-blue-200 shadow-lg disabled:bg-slate-300 disabled:shadow-none"
+        >
+          <Check className="w-5 h-5" />
+          {confirmLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewEditor;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Annotation, DictationItem } from '../types';
+import { annotate } from '../services/romanization';
+
+interface RubyTextProps {
+  text: string;
+  annotation: Annotation;
+  item?: DictationItem; // Lets readings stored on the item override the tables
+  className?: string;
+}
+
+// Each reading sits in its own <ruby> so it stays above its character when lines wrap
+const RubyText: React.FC<RubyTextProps> = ({ text, annotation, item, className }) => {
+  if (annotation === 'none') return <span className={className}>{text}</span>;
+
+  return (
+    <span className={`ruby-text ${annotation === 'zhuyin' ? 'ruby-zhuyin' : ''} ${className || ''}`}>
+      {annotate(text, annotation, item).map((c, idx) =>
+        c.reading ? (
+          <ruby key={idx}>
+            {c.char}
+            <rt className="text-slate-500 font-normal tracking-normal print:text-black">{c.reading}</rt>
+          </ruby>
+        ) : (
+          <React.Fragment key={idx}>{c.char}</React.Fragment>
+        )
+      )}
+    </span>
+  );
+};
+
+export default RubyText;
@@ -1,29 +1,82 @@
 
 import React, { useState, useRef } from 'react';
-import { analyzeMaterial } from '../services/geminiService';
-import { DictationItem, DictationMode } from '../types';
-import { BookOpen, Sparkles, Upload, Image as ImageIcon, X, Languages, AlignLeft, List, ScrollText, Printer } from 'lucide-react';
+import { analyzeMaterial, isAIServiceAvailable } from '../services/aiProvider';
+import { extractLocally } from '../services/localExtractor';
+import { fillJyutping } from '../services/romanization';
+import { convertItems } from '../services/chineseScript';
+import { saveList, createThumbnail, defaultListTitle, parseTags } from '../services/libraryStore';
+import { parseListFile, readFileAsText } from '../services/listFile';
+import { DEFAULT_CLOZE_SETTINGS, hasCloze } from '../services/clozeUtils';
+import { ChildProfile, ChineseScript, ClozeSettings, DictationItem, DictationMode } from '../types';
+import ClozeSettingsPanel from './ClozeSettingsPanel';
+import Library from './Library';
+import ReviewEditor from './ReviewEditor';
+import TodayReview from './TodayReview';
+import { BookOpen, Sparkles, Upload, Image as ImageIcon, X, Languages, AlignLeft, List, ScrollText, Pencil, Printer, Tag, FileUp, Users, BarChart3 } from 'lucide-react';
 
 interface SetupProps {
-  onStart: (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', view: 'practice' | 'worksheet') => void;
+  profile: ChildProfile;
+  onSwitchProfile: () => void;
+  onDashboard: () => void;
+  onStart: (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', view: 'practice' | 'worksheet', cloze?: ClozeSettings) => void;
 }
 
-const Setup: React.FC<SetupProps> = ({ onStart }) => {
+const Setup: React.FC<SetupProps> = ({ profile, onSwitchProfile, onDashboard, onStart }) => {
   const [text, setText] = useState('');
-  const [mode, setMode] = useState<DictationMode>('vocab');
-  const [language, setLanguage] = useState<'mandarin' | 'cantonese'>('cantonese');
+  const [mode, setMode] = useState<DictationMode>(profile.mode);
+  const [language, setLanguage] = useState<'mandarin' | 'cantonese'>(profile.audioLanguage);
   const [loading, setLoading] = useState(false);
+  const [tags, setTags] = useState('');
+  const [cloze, setCloze] = useState<ClozeSettings>({ ...DEFAULT_CLOZE_SETTINGS, difficulty: profile.difficulty });
+  const [script, setScript] = useState<ChineseScript>('traditional');
+  const [review, setReview] = useState<{ items: DictationItem[]; targetView: 'practice' | 'worksheet'; title?: string } | null>(null);
   const [files, setFiles] = useState<{ mimeType: string; data: string; name: string }[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleProcess = async (targetView: 'practice' | 'worksheet') => {
     if (!text.trim() && files.length === 0) return;
     setLoading(true);
     
-    const items = await analyzeMaterial(text, files, mode);
+    // Pasted text is handled locally for paragraphs, or whenever the AI service is down
+    const useLocal = files.length === 0 && (mode === 'paragraph' || !isAIServiceAvailable());
+    let items = useLocal ? extractLocally(text, mode, cloze) : await analyzeMaterial(text, files, mode, cloze);
+    if (items.length === 0 && !useLocal && text.trim()) {
+      items = extractLocally(text, mode, cloze);
+    }
+    items = fillJyutping(convertItems(items, script), mode);
     
     setLoading(false);
-    onStart(items, mode, language, targetView);
+    if (items.length === 0) {
+      onStart(items, mode, language, targetView, cloze);
+      return;
+    }
+    // Let the parent fix OCR mistakes before anything starts
+    setReview({ items, targetView });
+  };
+
+  const handleConfirmReview = async (items: DictationItem[]) => {
+    if (!review) return;
+    await saveToLibrary(items, review.title);
+    onStart(items, mode, language, review.targetView, cloze);
+  };
+
+  // Keep every generated list so it can be reused without calling Gemini again
+  const saveToLibrary = async (items: DictationItem[], title?: string) => {
+    try {
+      const thumbnails = await Promise.all(files.map(file => createThumbnail(file)));
+      await saveList({
+        profileId: profile.id,
+        title: title || defaultListTitle({ items }),
+        mode,
+        audioLanguage: language,
+        items,
+        tags: parseTags(tags),
+        thumbnails: thumbnails.filter((t): t is string => !!t),
+      });
+    } catch (error) {
+      console.error("Error saving to library:", error);
+    }
   };
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -45,6 +98,34 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
     }
   };
 
+  // Word lists from spreadsheets skip OCR entirely and go straight to review
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    let content: string;
+    try {
+      content = await readFileAsText(file);
+    } catch (error) {
+      console.error("Error reading list file:", error);
+      alert("未能讀取檔案，請再試一次。(Could not read the file)");
+      return;
+    }
+
+    const imported = parseListFile(file.name, content);
+    if (imported.errors.length > 0) {
+      const lines = imported.errors.slice(0, 10).map(e => (e.row > 0 ? `第 ${e.row} 行：${e.message}` : e.message));
+      if (imported.errors.length > 10) lines.push(`…還有 ${imported.errors.length - 10} 個問題`);
+      alert(`匯入時發現以下問題 (Import issues)：\n\n${lines.join('\n')}`);
+    }
+    if (imported.items.length === 0) return;
+
+    if (imported.mode) setMode(imported.mode);
+    if (imported.audioLanguage) setLanguage(imported.audioLanguage);
+    setReview({ items: fillJyutping(convertItems(imported.items, script), imported.mode || mode), targetView: 'practice', title: imported.title || file.name.replace(/\.[^.]+$/, '') });
+  };
+
   const removeFile = (index: number) => {
     setFiles(prev => prev.filter((_, i) => i !== index));
   };
@@ -54,8 +135,40 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
     setText("今天是星期天，天氣晴朗。爸爸帶我去動物園看獅子和老虎。我們還看見了長頸鹿吃樹葉，真有趣！");
   };
 
+  if (review) {
+    return (
+      <ReviewEditor
+        items={review.items}
+        mode={mode}
+        confirmLabel={review.targetView === 'worksheet' ? '確認並生成練習卷' : '確認並開始默書'}
+        onConfirm={handleConfirmReview}
+        onCancel={() => setReview(null)}
+      />
+    );
+  }
+
   return (
     <div className="flex flex-col items-center justify-center min-h-[90vh] p-6 max-w-3xl mx-auto">
+      <div className="self-end flex items-center gap-2">
+        <button
+          onClick={onDashboard}
+          className="flex items-center gap-1 px-3 py-1.5 bg-white rounded-full shadow-sm border border-blue-100 text-slate-600 hover:border-blue-300 transition-all text-sm font-bold"
+          title="學習進度 (Progress)"
+        >
+          <BarChart3 className="w-4 h-4 text-blue-500" />
+          學習進度
+        </button>
+        <button
+          onClick={onSwitchProfile}
+          className="flex items-center gap-2 px-3 py-1.5 bg-white rounded-full shadow-sm border border-blue-100 text-slate-600 hover:border-blue-300 transition-all"
+          title="切換小朋友 (Switch profile)"
+        >
+          <span className="text-xl">{profile.avatar}</span>
+          <span className="font-bold">{profile.name}</span>
+          <Users className="w-4 h-4 text-slate-400" />
+        </button>
+      </div>
+
       <div className="text-center mb-6">
         <h1 className="text-4xl font-bold text-blue-600 mb-2 flex items-center justify-center gap-3">
           <BookOpen className="w-10 h-10" />
@@ -66,10 +179,12 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
         </p>
       </div>
 
+      <TodayReview profileId={profile.id} language={language} onStart={onStart} />
+
       <div className="w-full bg-white rounded-2xl shadow-xl p-6 border-2 border-blue-100">
         
         {/* Mode Selection */}
-        <div className="grid grid-cols-3 gap-3 mb-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
           <button 
             onClick={() => setMode('vocab')}
             className={`flex flex-col items-center justify-center p-3 rounded-xl border-2 transition-all ${mode === 'vocab' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-100 hover:border-blue-200 text-slate-500'}`}
@@ -77,6 +192,13 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
             <List className="w-6 h-6 mb-1" />
             <span className="font-bold text-sm">詞語 (Words)</span>
           </button>
+          <button 
+            onClick={() => setMode('character')}
+            className={`flex flex-col items-center justify-center p-3 rounded-xl border-2 transition-all ${mode === 'character' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-100 hover:border-blue-200 text-slate-500'}`}
+          >
+            <Pencil className="w-6 h-6 mb-1" />
+            <span className="font-bold text-sm">生字 (Characters)</span>
+          </button>
           <button 
             onClick={() => setMode('idiom')}
             className={`flex flex-col items-center justify-center p-3 rounded-xl border-2 transition-all ${mode === 'idiom' ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-slate-100 hover:border-blue-200 text-slate-500'}`}
@@ -123,6 +245,21 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
           ))}
         </div>
 
+        {/* Idioms and single characters have no cloze to tune */}
+        {hasCloze(mode) && <ClozeSettingsPanel settings={cloze} onChange={setCloze} />}
+
+        {/* Tags for the saved list */}
+        <div className="flex items-center gap-2 mb-4 px-3 py-2 border border-slate-200 rounded-xl focus-within:ring-2 focus-within:ring-blue-100">
+          <Tag className="w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            className="flex-1 outline-none text-sm"
+            placeholder="標籤 (可選)，例如：P3 第五課"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+          />
+        </div>
+
         {/* Controls: Upload & Language */}
         <div className="flex flex-col md:flex-row gap-4">
            <input 
@@ -142,6 +279,22 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
              <span>添加圖片/PDF</span>
            </button>
 
+           <input
+             type="file"
+             ref={importInputRef}
+             onChange={handleImport}
+             className="hidden"
+             accept=".csv,.json,.txt,text/csv,application/json"
+           />
+           <button
+             onClick={() => importInputRef.current?.click()}
+             className="border-2 border-dashed border-slate-300 rounded-xl flex items-center justify-center gap-2 p-3 text-slate-500 hover:bg-slate-50 hover:border-blue-400 hover:text-blue-500 transition-all"
+             title="從 Excel (CSV) 或 JSON 檔案匯入詞語表"
+           >
+             <FileUp className="w-5 h-5" />
+             <span>匯入詞表</span>
+           </button>
+
            <div className="flex items-center gap-2 bg-slate-50 rounded-xl p-1 border border-slate-200">
               <Languages className="w-5 h-5 text-slate-400 ml-2" />
               <div className="flex">
@@ -159,6 +312,21 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
                 </button>
               </div>
            </div>
+
+           <div className="flex items-center bg-slate-50 rounded-xl p-1 border border-slate-200" title="輸出字體 (Output script)">
+              <button 
+                onClick={() => setScript('traditional')}
+                className={`px-3 py-2 rounded-lg text-sm font-bold transition-all ${script === 'traditional' ? 'bg-white shadow text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                繁
+              </button>
+              <button 
+                onClick={() => setScript('simplified')}
+                className={`px-3 py-2 rounded-lg text-sm font-bold transition-all ${script === 'simplified' ? 'bg-white shadow text-blue-600' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                简
+              </button>
+           </div>
         </div>
 
         {/* Action Buttons */}
@@ -199,6 +367,8 @@ const Setup: React.FC<SetupProps> = ({ onStart }) => {
           </button>
         </div>
       </div>
+
+      <Library profileId={profile.id} onStart={onStart} />
     </div>
   );
 };
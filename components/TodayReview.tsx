@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { DictationItem, DictationMode, ReviewCard } from '../types';
+import { MODE_LABELS } from '../constants';
+import { getDueCards, buildReviewSessions } from '../services/reviewScheduler';
+import { CalendarCheck, Play } from 'lucide-react';
+
+interface TodayReviewProps {
+  profileId: string;
+  language: 'mandarin' | 'cantonese';
+  onStart: (items: DictationItem[], mode: DictationMode, language: 'mandarin' | 'cantonese', view: 'practice' | 'worksheet') => void;
+}
+
+const TodayReview: React.FC<TodayReviewProps> = ({ profileId, language, onStart }) => {
+  const [dueCards, setDueCards] = useState<ReviewCard[]>([]);
+
+  useEffect(() => {
+    getDueCards(profileId)
+      .then(setDueCards)
+      .catch(error => console.error("Error loading review schedule:", error));
+  }, [profileId]);
+
+  if (dueCards.length === 0) return null;
+
+  const sessions = buildReviewSessions(dueCards);
+
+  return (
+    <div className="w-full bg-gradient-to-r from-orange-50 to-amber-50 rounded-2xl shadow-md p-5 border-2 border-orange-100 mb-6">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <CalendarCheck className="w-8 h-8 text-orange-400" />
+          <div>
+            <h2 className="text-lg font-bold text-slate-700">今日溫習</h2>
+            <p className="text-sm text-slate-500">有 {dueCards.length} 個之前寫錯的項目需要溫習</p>
+          </div>
+        </div>
+        <div className="flex gap-2 flex-wrap">
+          {sessions.map(session => (
+            <button
+              key={session.mode}
+              onClick={() => onStart(session.items, session.mode, language, 'practice')}
+              className="flex items-center gap-2 px-4 py-2 bg-orange-400 hover:bg-orange-500 text-white rounded-xl font-bold shadow-md shadow-orange-100 transition-all"
+            >
+              <Play className="w-4 h-4" />
+              {MODE_LABELS[session.mode]} ({session.items.length})
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TodayReview;
@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import { AudioSettings } from '../types';
+import { isAIServiceAvailable } from '../services/aiProvider';
+import { loadVoices, voicesFor } from '../services/audioUtils';
+import { AlertTriangle, Volume2 } from 'lucide-react';
+
+interface VoicePickerProps {
+  value: AudioSettings;
+  onChange: (settings: AudioSettings) => void;
+  language: 'mandarin' | 'cantonese';
+}
+
+const VoicePicker: React.FC<VoicePickerProps> = ({ value, onChange, language }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[] | null>(null);
+  const aiAvailable = isAIServiceAvailable();
+
+  useEffect(() => {
+    let active = true;
+    loadVoices().then(all => {
+      if (active) setVoices(voicesFor(all, language));
+    });
+    return () => {
+      active = false;
+    };
+  }, [language]);
+
+  const missingVoice = value.engine === 'browser' && voices !== null && voices.length === 0;
+
+  return (
+    <div className="flex flex-col items-center gap-2 text-sm text-slate-600">
+      <div className="flex flex-wrap justify-center gap-2">
+        <label className="flex items-center gap-1 px-2 bg-slate-50 rounded-lg border border-slate-200" title="朗讀方式 (Voice engine)">
+          <Volume2 className="w-4 h-4 text-slate-400" />
+          <select
+            value={value.engine}
+            onChange={(e) => onChange({ ...value, engine: e.target.value as AudioSettings['engine'] })}
+            className="py-1 bg-transparent outline-none"
+          >
+            <option value="browser">瀏覽器語音</option>
+            <option value="gemini" disabled={!aiAvailable}>Gemini 語音{aiAvailable ? '' : ' (未設定)'}</option>
+          </select>
+        </label>
+        {value.engine === 'browser' && voices && voices.length > 0 && (
+          <label className="flex items-center gap-1 px-2 bg-slate-50 rounded-lg border border-slate-200" title="聲音 (Voice)">
+            <select
+              value={value.voiceURI || ''}
+              onChange={(e) => onChange({ ...value, voiceURI: e.target.value || undefined })}
+              className="py-1 bg-transparent outline-none max-w-[14rem]"
+            >
+              <option value="">預設聲音</option>
+              {voices.map(voice => (
+                <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      {missingVoice && (
+        <p className="flex items-center gap-1 text-xs text-amber-600">
+          <AlertTriangle className="w-3 h-3" />
+          {language === 'cantonese'
+            ? `此裝置沒有粵語語音，讀音可能不準確。${aiAvailable ? '可改用 Gemini 語音。' : '請在系統設定安裝「中文（香港）」語音。'}`
+            : `此裝置沒有普通話語音。${aiAvailable ? '可改用 Gemini 語音。' : '請在系統設定安裝中文語音。'}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VoicePicker;
@@ -1,16 +1,50 @@
 
-import React, { useState } from 'react';
-import { DictationItem, DictationMode } from '../types';
-import { Printer, Eye, EyeOff, ArrowLeft, ExternalLink } from 'lucide-react';
+import React, { useMemo, useState } from 'react';
+import { Annotation, ChineseScript, ClozeSettings, DictationItem, DictationMode, PracticeGridSettings, WorksheetLayout } from '../types';
+import { hasCloze, regenerateCloze } from '../services/clozeUtils';
+import { maskedCueWord } from '../services/characterUtils';
+import { convertItems, detectItemsScript } from '../services/chineseScript';
+import { DEFAULT_GRID_SETTINGS } from '../services/practiceGrid';
+import ClozeSettingsPanel from './ClozeSettingsPanel';
+import PracticeGrid from './PracticeGrid';
+import CorrectionWorksheet from './CorrectionWorksheet';
+import PracticeGridSettingsPanel from './PracticeGridSettingsPanel';
+import RubyText from './RubyText';
+import AnnotationSelect from './AnnotationSelect';
+import ExportMenu from './ExportMenu';
+import { Printer, Eye, EyeOff, ArrowLeft, ExternalLink, Camera, RefreshCw, LayoutGrid, PenLine } from 'lucide-react';
 
 interface WorksheetProps {
   items: DictationItem[];
   mode: DictationMode;
+  audioLanguage: 'mandarin' | 'cantonese';
+  annotation: Annotation;
+  onAnnotationChange: (annotation: Annotation) => void;
+  initialCloze: ClozeSettings; // Difficulty chosen in Setup or the profile's
+  onItemsChange: (items: DictationItem[]) => void;
+  onGrade: () => void;
+  onExam: () => void;
   onBack: () => void;
 }
 
-const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
+const Worksheet: React.FC<WorksheetProps> = ({ items, mode, audioLanguage, annotation, onAnnotationChange, initialCloze, onItemsChange, onGrade, onExam, onBack }) => {
   const [showAnswers, setShowAnswers] = useState(false);
+  const [cloze, setCloze] = useState<ClozeSettings>(initialCloze);
+  const [layout, setLayout] = useState<WorksheetLayout>('standard');
+  const [grid, setGrid] = useState<PracticeGridSettings>(DEFAULT_GRID_SETTINGS);
+  const sourceScript = useMemo(() => detectItemsScript(items), [items]);
+  const [script, setScript] = useState<ChineseScript>(sourceScript);
+
+  // The list itself is left untouched; only the printed copy is converted
+  const printedItems = useMemo(
+    () => (script === sourceScript ? items : convertItems(items, script)),
+    [items, script, sourceScript]
+  );
+
+  // Rebuilds the blanks from each item's content, so no OCR or AI call is needed
+  const handleRegenerate = () => {
+    onItemsChange(items.map(item => regenerateCloze(item, mode, cloze)));
+  };
 
   const handlePrint = () => {
     // Check if running inside an iframe (like Project IDX preview)
@@ -37,6 +71,62 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
         </button>
         <h2 className="font-bold text-lg text-slate-800">練習卷預覽 (Preview)</h2>
         <div className="flex gap-3">
+          <label className="flex items-center gap-1 px-2 bg-slate-50 rounded-lg border border-slate-200 text-sm text-slate-600" title="版面 (Layout)">
+            <LayoutGrid className="w-4 h-4 text-slate-400" />
+            <select
+              value={layout}
+              onChange={(e) => setLayout(e.target.value as WorksheetLayout)}
+              className="py-1 bg-transparent outline-none"
+            >
+              <option value="standard">默書卷</option>
+              <option value="practiceGrid">生字格</option>
+              <option value="correction">改錯字</option>
+            </select>
+          </label>
+          {layout === 'practiceGrid' && (
+            <div className="flex items-center px-2 bg-slate-50 rounded-lg border border-slate-200">
+              <PracticeGridSettingsPanel settings={grid} onChange={setGrid} />
+            </div>
+          )}
+          {layout === 'standard' && hasCloze(mode) && (
+            <div className="flex items-center gap-2 px-2 bg-slate-50 rounded-lg border border-slate-200">
+              <ClozeSettingsPanel settings={cloze} onChange={setCloze} compact />
+              <button
+                onClick={handleRegenerate}
+                className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg font-medium transition-colors"
+                title="按新難度重新生成填充題"
+              >
+                <RefreshCw className="w-4 h-4" />
+                重新生成填充
+              </button>
+            </div>
+          )}
+          <AnnotationSelect value={annotation} onChange={onAnnotationChange} />
+          <select
+            value={script}
+            onChange={(e) => setScript(e.target.value as ChineseScript)}
+            className="px-2 py-1 bg-slate-50 rounded-lg border border-slate-200 text-sm text-slate-600 outline-none"
+            title="打印字體 (Print script)"
+          >
+            <option value="traditional">繁體</option>
+            <option value="simplified">简体</option>
+          </select>
+          <ExportMenu items={items} mode={mode} audioLanguage={audioLanguage} />
+          <button 
+            onClick={onExam}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors"
+            title="自動朗讀整份默書，小朋友在紙上書寫"
+          >
+            <PenLine className="w-4 h-4" />
+            模擬默書
+          </button>
+          <button 
+            onClick={onGrade}
+            className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors"
+          >
+            <Camera className="w-4 h-4" />
+            批改相片
+          </button>
           <button 
             onClick={() => setShowAnswers(!showAnswers)}
             className="flex items-center gap-2 px-4 py-2 bg-slate-100 hover:bg-slate-200 text-slate-700 rounded-lg font-medium transition-colors"
@@ -67,14 +157,14 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
       </div>
 
       {/* Worksheet Paper */}
-      <div className="max-w-[210mm] mx-auto bg-white min-h-[297mm] shadow-lg mt-4 mb-8 p-[20mm] print:shadow-none print:m-0 print:w-full print:p-[15mm] print:border-none">
+      <div className="max-w-[210mm] mx-auto bg-white min-h-[297mm] shadow-lg mt-4 mb-8 p-[20mm] print:min-h-0 print:shadow-none print:m-0 print:w-full print:p-[15mm] print:border-none">
         
         {/* Header */}
         <div className="border-b-2 border-black pb-4 mb-8">
           <h1 className="text-3xl font-black text-center mb-6 tracking-widest text-slate-900">
             默書練習卷
             <span className="text-sm font-normal block mt-1 tracking-normal text-slate-500 print:text-black">
-               {mode === 'paragraph' ? '段落填充 (Paragraph Cloze)' : mode === 'idiom' ? '成語釋義 (Idioms)' : '詞語填空 (Sentence Completion)'}
+               {layout === 'practiceGrid' ? '生字格練習 (Practice Grid)' : layout === 'correction' ? '改錯字 (Error Correction)' : mode === 'paragraph' ? '段落填充 (Paragraph Cloze)' : mode === 'idiom' ? '成語釋義 (Idioms)' : mode === 'character' ? '生字默寫 (Characters)' : '詞語填空 (Sentence Completion)'}
             </span>
           </h1>
           <div className="flex justify-between text-lg font-serif text-slate-900">
@@ -96,7 +186,16 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
         {/* Content */}
         <div className="space-y-8 font-serif text-slate-900">
           
-          {mode === 'paragraph' ? (
+          {layout === 'practiceGrid' ? (
+            <div className="space-y-4">
+               <div className="bg-gray-100 p-4 border rounded-lg text-sm text-gray-700 print:bg-gray-100 print:text-black print:border-gray-300 mb-4">
+                  <span className="font-bold">說明：</span> 先描灰色的字，再在空格內抄寫，注意筆順和字的結構。
+               </div>
+               <PracticeGrid items={printedItems} annotation={annotation} settings={grid} />
+            </div>
+          ) : layout === 'correction' ? (
+            <CorrectionWorksheet items={printedItems} mode={mode} showAnswers={showAnswers} />
+          ) : mode === 'paragraph' ? (
             <div className="space-y-4">
                <div className="bg-gray-100 p-4 border rounded-lg text-sm text-gray-700 print:bg-gray-100 print:text-black print:border-gray-300 mb-4">
                   <span className="font-bold">說明：</span> 請閱讀下文，並在橫線上填寫正確的字詞（注意上下文）。
@@ -104,7 +203,7 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
                
                {/* Continuous Paragraph Block with Proper Indentation */}
                <div className="text-xl leading-9 text-justify tracking-wide">
-                 {items.map((item, idx) => (
+                 {printedItems.map((item, idx) => (
                     <React.Fragment key={item.id}>
                       {/* Paragraph Break Logic */}
                       {item.isNewParagraph && (
@@ -114,7 +213,7 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
                       {/* Content with Indentation for new paragraphs */}
                       <span className={`inline ${item.isNewParagraph ? 'indent-8 inline-block' : ''}`}>
                         {showAnswers ? (
-                          <span className="text-green-700 font-bold mx-0.5">{item.content}</span>
+                          <RubyText text={item.content} annotation={annotation} item={item} className="text-green-700 font-bold mx-0.5" />
                         ) : (
                           <span className="mx-0.5">{item.clozeContent || item.content}</span>
                         )}
@@ -127,10 +226,10 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
                  <div className="mt-8 pt-8 border-t border-dashed border-gray-300 print:block">
                     <h3 className="font-bold text-lg mb-4">參考答案全文：</h3>
                     <div className="text-sm text-gray-600 leading-relaxed">
-                      {items.map((item, idx) => (
+                      {printedItems.map((item, idx) => (
                         <React.Fragment key={idx}>
                           {item.isNewParagraph && idx > 0 && <br className="mb-2 block"/>}
-                          <span>{item.content}</span>
+                          <RubyText text={item.content} annotation={annotation} item={item} />
                         </React.Fragment>
                       ))}
                     </div>
@@ -143,14 +242,14 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
                   <span className="font-bold">說明：</span> 請根據句意，在橫線上填入正確的詞語。
                 </div>
 
-                {items.map((item, idx) => (
+                {printedItems.map((item, idx) => (
                    <div key={item.id} className="border-b border-dashed border-gray-200 pb-6 break-inside-avoid">
                       <div className="flex gap-2 text-xl mb-3">
                          <span className="font-bold w-6">{idx + 1}.</span>
                          <div className="flex-1 leading-relaxed">
                             {/* Sentence Line */}
                             {showAnswers && item.example ? (
-                               <span className="text-green-700 font-bold">{item.example}</span>
+                               <RubyText text={item.example} annotation={annotation} className="text-green-700 font-bold" />
                             ) : (
                                <span>{item.clozeContent || item.example || "__________________"}</span>
                             )}
@@ -170,15 +269,43 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
                   <div className="mt-8 pt-8 border-t border-dashed border-gray-300 print:block">
                      <h3 className="font-bold text-lg mb-4">參考答案：</h3>
                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                       {items.map((item, idx) => (
+                       {printedItems.map((item, idx) => (
                          <div key={idx} className="text-sm text-gray-600">
-                           {idx + 1}. {item.content}
+                           {idx + 1}. <RubyText text={item.content} annotation={annotation} item={item} />
                          </div>
                        ))}
                      </div>
                   </div>
                 )}
              </div>
+          ) : mode === 'character' ? (
+            <div className="w-full">
+               <div className="bg-gray-100 p-4 border rounded-lg text-sm text-gray-700 print:bg-gray-100 print:text-black print:border-gray-300 mb-4">
+                  <span className="font-bold">說明：</span> 請根據提示詞語和部首，在方格內寫出正確的字。
+               </div>
+               <div className="grid grid-cols-12 gap-4 border-b-2 border-black pb-2 mb-4 font-bold text-lg">
+                 <div className="col-span-1">#</div>
+                 <div className="col-span-5">提示 (Hint)</div>
+                 <div className="col-span-3">部首 / 筆畫</div>
+                 <div className="col-span-3">默寫 (Write Here)</div>
+               </div>
+
+               {printedItems.map((item, idx) => (
+                 <div key={item.id} className="grid grid-cols-12 gap-4 items-center border-b border-gray-200 py-3 break-inside-avoid">
+                   <div className="col-span-1 font-bold text-gray-500">{idx + 1}</div>
+                   <div className="col-span-5 text-2xl tracking-widest">{maskedCueWord(item) || '＿'}</div>
+                   <div className="col-span-3 text-lg">
+                     {item.radical || '—'}
+                     {!!item.strokeCount && <span className="text-gray-500"> / {item.strokeCount} 畫</span>}
+                   </div>
+                   <div className="col-span-3">
+                     <div className="w-16 h-16 border-2 border-black flex items-center justify-center text-4xl font-bold text-green-700">
+                       {showAnswers && <RubyText text={item.content} annotation={annotation} item={item} />}
+                     </div>
+                   </div>
+                 </div>
+               ))}
+            </div>
           ) : (
             // Idiom Grid Layout (Keep as is for Idioms)
             <div className="w-full">
@@ -188,21 +315,18 @@ const Worksheet: React.FC<WorksheetProps> = ({ items, mode, onBack }) => {
                  <div className="col-span-4">默寫 (Write Here)</div>
                </div>
 
-               {items.map((item, idx) => (
+               {printedItems.map((item, idx) => (
                  <div key={item.id} className="grid grid-cols-12 gap-4 items-center border-b border-gray-200 py-4 break-inside-avoid">
                    <div className="col-span-1 font-bold text-gray-500">{idx + 1}</div>
                    
                    <div className="col-span-7 text-lg">
                       {item.meaning || "請默寫..."}
-                      {item.subContent && showAnswers && (
-                        <span className="block text-sm text-gray-400 mt-1">{item.subContent}</span>
-                      )}
                    </div>
                    
                    <div className="col-span-4 relative h-12">
                       {showAnswers ? (
                          <div className="absolute inset-0 flex items-center text-2xl font-kaiti text-green-700 font-bold">
-                            {item.content}
+                            <RubyText text={item.content} annotation={annotation} item={item} />
                          </div>
                       ) : (
                          <div className="w-full h-full border-b border-black"></div>
@@ -0,0 +1,18 @@
+import { DictationMode, MistakeKind } from './types';
+
+export const MODE_LABELS: Record<DictationMode, string> = {
+  vocab: '詞語',
+  idiom: '成語',
+  paragraph: '段落',
+  character: '生字',
+};
+
+export const MISTAKE_LABELS: Record<MistakeKind, string> = {
+  homophone: '同音字',
+  lookalike: '形近字',
+  radical: '部首錯誤',
+  omission: '漏寫',
+  insertion: '多寫',
+  order: '次序顛倒',
+  other: '其他',
+};
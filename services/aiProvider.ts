@@ -0,0 +1,76 @@
+import { ClozeSettings, DictationItem, DictationMode, RecognizedLine } from "../types";
+import { geminiProvider } from "./geminiService";
+import { mockProvider } from "./mockProvider";
+
+export type ChatHistory = { role: 'user' | 'model', text: string }[];
+
+/**
+ * Everything the app asks of an AI backend. Gemini is the real implementation;
+ * the mock provider answers deterministically without a key or network.
+ */
+export interface AIProvider {
+  name: string;
+  speechVoice: string; // The voice generateSpeech uses; part of audio cache keys
+  isAvailable: () => boolean;
+  analyzeMaterial: (
+    text: string,
+    files: { mimeType: string; data: string }[],
+    mode: DictationMode,
+    cloze?: ClozeSettings
+  ) => Promise<DictationItem[]>;
+  recognizeHandwriting: (photo: { mimeType: string; data: string }) => Promise<RecognizedLine[]>;
+  generateSpeech: (text: string, language: 'mandarin' | 'cantonese') => Promise<string | null>; // Base64 24 kHz mono PCM
+  chatWithAssistant: (history: ChatHistory, currentMessage: string, context?: string) => Promise<string>;
+}
+
+const providers: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+let activeProvider: AIProvider | null = null;
+
+/**
+ * Picks the provider from process.env.AI_PROVIDER ('gemini' | 'mock').
+ * The mock is only used when asked for; without a key Gemini reports itself
+ * unavailable, so callers fall back to local extraction and browser voices.
+ */
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    const configured = process.env.AI_PROVIDER;
+    if (configured && providers[configured]) {
+      activeProvider = providers[configured];
+    } else {
+      if (configured) console.warn(`Unknown AI_PROVIDER "${configured}", using gemini`);
+      activeProvider = geminiProvider;
+    }
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the provider, e.g. with a dev-only stub while debugging.
+ */
+export const setAIProvider = (provider: AIProvider | null) => {
+  activeProvider = provider;
+};
+
+/**
+ * Whether the configured provider can be reached right now.
+ */
+export const isAIServiceAvailable = (): boolean =>
+  getAIProvider().isAvailable() && (typeof navigator === 'undefined' || navigator.onLine);
+
+// Convenience wrappers so components don't need to know which provider is active
+
+export const analyzeMaterial: AIProvider['analyzeMaterial'] = (text, files, mode, cloze) =>
+  getAIProvider().analyzeMaterial(text, files, mode, cloze);
+
+export const recognizeHandwriting: AIProvider['recognizeHandwriting'] = (photo) =>
+  getAIProvider().recognizeHandwriting(photo);
+
+export const generateSpeech: AIProvider['generateSpeech'] = (text, language) =>
+  getAIProvider().generateSpeech(text, language);
+
+export const chatWithAssistant: AIProvider['chatWithAssistant'] = (history, currentMessage, context) =>
+  getAIProvider().chatWithAssistant(history, currentMessage, context);
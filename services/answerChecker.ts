@@ -0,0 +1,129 @@
+import { CharDiff, DictationItem, DictationMode, ItemResult } from "../types";
+
+// Half-width punctuation typed on an English keyboard, mapped to the full-width
+// forms used in Hong Kong textbooks.
+const PUNCTUATION_MAP: Record<string, string> = {
+  ',': '，',
+  '.': '。',
+  '?': '？',
+  '!': '！',
+  ':': '：',
+  ';': '；',
+  '(': '（',
+  ')': '）',
+  '“': '「',
+  '”': '」',
+  '‘': '『',
+  '’': '』',
+  '﹁': '「',
+  '﹂': '」',
+};
+
+const PUNCTUATION_REGEX = /[\p{P}\p{S}]/u;
+
+export const isPunctuation = (char: string): boolean => PUNCTUATION_REGEX.test(char);
+
+/**
+ * Normalises text before comparison: strips whitespace and converts half-width
+ * punctuation to full-width. Straight quotes alternate between 「 and 」.
+ * Outside paragraph mode punctuation is not part of the answer, so it is dropped.
+ */
+export const normalizeAnswer = (text: string, mode: DictationMode): string[] => {
+  const chars: string[] = [];
+  let quoteOpen = false;
+  let singleQuoteOpen = false;
+
+  const normalized = text.normalize('NFC').replace(/\.\.\.|…+/g, '……');
+
+  for (const raw of Array.from(normalized)) {
+    if (/\s/.test(raw)) continue;
+
+    let char = PUNCTUATION_MAP[raw] || raw;
+    if (raw === '"') {
+      char = quoteOpen ? '」' : '「';
+      quoteOpen = !quoteOpen;
+    } else if (raw === "'") {
+      char = singleQuoteOpen ? '』' : '『';
+      singleQuoteOpen = !singleQuoteOpen;
+    }
+
+    if (mode !== 'paragraph' && isPunctuation(char)) continue;
+    chars.push(char);
+  }
+  return chars;
+};
+
+/**
+ * Aligns the child's answer with the expected text character by character
+ * (edit distance with backtrace) and labels every position.
+ */
+export const diffCharacters = (expected: string[], actual: string[]): CharDiff[] => {
+  const rows = expected.length + 1;
+  const cols = actual.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, () => new Array(cols).fill(0));
+
+  for (let i = 0; i < rows; i++) cost[i][0] = i;
+  for (let j = 0; j < cols; j++) cost[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const substitution = cost[i - 1][j - 1] + (expected[i - 1] === actual[j - 1] ? 0 : 1);
+      cost[i][j] = Math.min(substitution, cost[i - 1][j] + 1, cost[i][j - 1] + 1);
+    }
+  }
+
+  const diff: CharDiff[] = [];
+  let i = expected.length;
+  let j = actual.length;
+
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0) {
+      const same = expected[i - 1] === actual[j - 1];
+      if (cost[i][j] === cost[i - 1][j - 1] + (same ? 0 : 1)) {
+        diff.push({
+          status: same ? 'correct' : 'wrong',
+          expected: expected[i - 1],
+          actual: actual[j - 1],
+        });
+        i--;
+        j--;
+        continue;
+      }
+    }
+    if (i > 0 && cost[i][j] === cost[i - 1][j] + 1) {
+      diff.push({ status: 'missing', expected: expected[i - 1] });
+      i--;
+    } else {
+      diff.push({ status: 'extra', actual: actual[j - 1] });
+      j--;
+    }
+  }
+
+  return diff.reverse();
+};
+
+/**
+ * Checks a typed answer against the item's content.
+ * An empty answer means the child revealed the answer without trying.
+ */
+export const checkAnswer = (
+  item: DictationItem,
+  answer: string,
+  mode: DictationMode,
+  stats: { playCount: number; timeSpentMs: number } = { playCount: 0, timeSpentMs: 0 }
+): ItemResult => {
+  const expected = normalizeAnswer(item.content, mode);
+  const actual = normalizeAnswer(answer, mode);
+  const diff = diffCharacters(expected, actual);
+  const correctCount = diff.filter(d => d.status === 'correct').length;
+
+  return {
+    itemId: item.id,
+    answer,
+    diff,
+    correctCount,
+    totalCount: expected.length,
+    isCorrect: actual.length > 0 && diff.every(d => d.status === 'correct'),
+    ...stats,
+  };
+};
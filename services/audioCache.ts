@@ -0,0 +1,126 @@
+import { CachedAudio, DictationItem, DictationMode } from "../types";
+import { generateSpeech, getAIProvider } from "./aiProvider";
+import { characterCue } from "./characterUtils";
+import { withStore } from "./db";
+import { DEFAULT_EXAM_SETTINGS, buildExamScript } from "./examScript";
+
+// Generated speech is kept in IndexedDB so replays, repeated chat replies and
+// prepared lists don't call the API again. Old entries are evicted once the
+// cache grows past its cap.
+
+type Language = 'mandarin' | 'cantonese';
+
+// About 17 minutes of 24 kHz 16-bit audio
+export const AUDIO_CACHE_MAX_BYTES = 50 * 1024 * 1024;
+
+export const audioCacheKey = (text: string, voice: string, language: Language) => `${voice}|${language}|${text.trim()}`;
+
+const currentVoice = () => {
+  const provider = getAIProvider();
+  return `${provider.name}/${provider.speechVoice}`;
+};
+
+const getEntry = (key: string) => withStore<CachedAudio | undefined>('audio', 'readonly', store => store.get(key));
+
+/**
+ * Drops the least recently used entries until the cache fits its cap.
+ */
+export const evictAudio = async (maxBytes: number = AUDIO_CACHE_MAX_BYTES): Promise<void> => {
+  const entries = await withStore<CachedAudio[]>('audio', 'readonly', store => store.index('usedAt').getAll());
+  let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+  for (const entry of entries) {
+    if (total <= maxBytes) break;
+    await withStore('audio', 'readwrite', store => store.delete(entry.key));
+    total -= entry.bytes;
+  }
+};
+
+const readCache = async (key: string): Promise<string | null> => {
+  try {
+    const entry = await getEntry(key);
+    if (!entry) return null;
+    await withStore('audio', 'readwrite', store => store.put({ ...entry, usedAt: Date.now() }));
+    return entry.audio;
+  } catch (error) {
+    console.error("Error reading audio cache:", error);
+    return null;
+  }
+};
+
+const writeCache = async (key: string, audio: string) => {
+  try {
+    const entry: CachedAudio = { key, audio, bytes: Math.floor(audio.length * 0.75), usedAt: Date.now() };
+    await withStore('audio', 'readwrite', store => store.put(entry));
+    await evictAudio();
+  } catch (error) {
+    // A full or unavailable database only costs a repeated API call
+    console.error("Error writing audio cache:", error);
+  }
+};
+
+/**
+ * generateSpeech with a cache in front: base64 24 kHz mono PCM, or null.
+ */
+export const getSpeech = async (text: string, language: Language): Promise<string | null> => {
+  const key = audioCacheKey(text, currentVoice(), language);
+  const cached = await readCache(key);
+  if (cached) return cached;
+
+  const audio = await generateSpeech(text, language);
+  if (audio) await writeCache(key, audio);
+  return audio;
+};
+
+/**
+ * Whether speech for the text is already cached for the current voice.
+ */
+export const hasCachedSpeech = async (text: string, language: Language): Promise<boolean> => {
+  try {
+    return !!(await getEntry(audioCacheKey(text, currentVoice(), language)));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Everything Practice reads aloud for an item, so a prepared list plays offline.
+ */
+export const practiceTexts = (item: DictationItem, mode: DictationMode, language: Language): string[] => {
+  if (mode === 'idiom') return [item.content, `意思是：${item.meaning}`];
+  if (mode === 'character') return [characterCue(item, language)];
+  return [item.content];
+};
+
+/**
+ * Everything exam mode and the WAV export read aloud: 第N題, phrases with
+ * and without punctuation names, and the opening and closing lines.
+ */
+const examTexts = (items: DictationItem[], mode: DictationMode, language: Language): string[] =>
+  [false, true].flatMap(readPunctuation =>
+    buildExamScript(items, mode, language, { ...DEFAULT_EXAM_SETTINGS, readPunctuation })
+      .flatMap(step => (step.kind === 'speak' ? [step.text] : []))
+  );
+
+/**
+ * Generates and caches the audio for a whole list, as read in practice and
+ * in exam mode, skipping what is cached.
+ * Resolves with the number of texts that could not be generated.
+ */
+export const pregenerateAudio = async (
+  items: DictationItem[],
+  mode: DictationMode,
+  language: Language,
+  onProgress?: (done: number, total: number) => void
+): Promise<number> => {
+  const texts = Array.from(new Set([
+    ...items.flatMap(item => practiceTexts(item, mode, language)),
+    ...examTexts(items, mode, language),
+  ]));
+  let failed = 0;
+  for (let i = 0; i < texts.length; i++) {
+    onProgress?.(i, texts.length);
+    if (!(await hasCachedSpeech(texts[i], language)) && !(await getSpeech(texts[i], language))) failed++;
+  }
+  onProgress?.(texts.length, texts.length);
+  return failed;
+};
@@ -0,0 +1,173 @@
+import { DictationItem, DictationMode, ExamSettings, VoiceRecording } from "../types";
+import { decode, decodeAudioData, getAudioContext } from "./audioUtils";
+import { getSpeech, hasCachedSpeech, practiceTexts } from "./audioCache";
+import { isAIServiceAvailable } from "./aiProvider";
+import { DEFAULT_EXAM_SETTINGS, buildExamScript, toChineseNumber } from "./examScript";
+import { getRecording, recordingKey } from "./recordingStore";
+
+// Renders a whole dictation, as read in exam mode, into one WAV file that
+// can be played on a tablet or in the car. Browser voices cannot be
+// recorded, so speech comes from parents' recordings or generated audio.
+
+type Language = 'mandarin' | 'cantonese';
+
+export const EXPORT_SAMPLE_RATE = 24000; // Matches generateSpeech, so speech is not resampled
+
+export type TrackSegment =
+  | { kind: 'audio'; buffer: AudioBuffer; startMs: number; durationMs: number } // startMs within the buffer, for trimmed recordings
+  | { kind: 'silence'; ms: number };
+
+export interface Chapter {
+  title: string;
+  startMs: number;
+}
+
+/**
+ * Encodes audio as a 16-bit PCM WAV file.
+ */
+export const encodeWav = (buffer: Pick<AudioBuffer, 'numberOfChannels' | 'sampleRate' | 'length' | 'getChannelData'>): Blob => {
+  const { numberOfChannels: channels, sampleRate, length } = buffer;
+  const dataSize = length * channels * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * 2, true); // Byte rate
+  view.setUint16(32, channels * 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const data = Array.from({ length: channels }, (_, channel) => buffer.getChannelData(channel));
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let channel = 0; channel < channels; channel++) {
+      const sample = Math.max(-1, Math.min(1, data[channel][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += 2;
+    }
+  }
+  return new Blob([view], { type: 'audio/wav' });
+};
+
+const segmentMs = (segment: TrackSegment) => (segment.kind === 'audio' ? segment.durationMs : segment.ms);
+
+/**
+ * Lays the segments end to end in an OfflineAudioContext and renders them
+ * into a single mono buffer.
+ */
+export const mixTrack = (segments: TrackSegment[], sampleRate: number = EXPORT_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const totalMs = segments.reduce((sum, segment) => sum + segmentMs(segment), 0);
+  const ctx = new OfflineAudioContext(1, Math.max(1, Math.ceil((totalMs / 1000) * sampleRate)), sampleRate);
+  let at = 0;
+  segments.forEach(segment => {
+    if (segment.kind === 'audio') {
+      const source = ctx.createBufferSource();
+      source.buffer = segment.buffer;
+      source.connect(ctx.destination);
+      source.start(at / 1000, segment.startMs / 1000, segment.durationMs / 1000);
+    }
+    at += segmentMs(segment);
+  });
+  return ctx.startRendering();
+};
+
+// CUE sheets count time in minutes, seconds and frames of 1/75 s
+const formatCueTime = (ms: number) => {
+  const frames = Math.round((ms / 1000) * 75);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(frames / 75 / 60))}:${pad(Math.floor(frames / 75) % 60)}:${pad(frames % 75)}`;
+};
+
+/**
+ * A CUE sheet with one track per chapter, so players can jump between items.
+ */
+export const buildCueSheet = (fileName: string, title: string, chapters: Chapter[]): string => {
+  const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+  const lines = [`TITLE ${quote(title)}`, `FILE ${quote(fileName)} WAVE`];
+  chapters.forEach((chapter, idx) => {
+    lines.push(`  TRACK ${(idx + 1).toString().padStart(2, '0')} AUDIO`);
+    lines.push(`    TITLE ${quote(chapter.title)}`);
+    lines.push(`    INDEX 01 ${formatCueTime(chapter.startMs)}`);
+  });
+  return lines.join('\r\n') + '\r\n';
+};
+
+const chapterTitle = (item: DictationItem, index: number, mode: DictationMode) =>
+  mode === 'paragraph' ? `第${toChineseNumber(index + 1)}句` : `第${toChineseNumber(index + 1)}題 ${item.content}`;
+
+const recordingSegment = async (recording: VoiceRecording): Promise<TrackSegment> => {
+  const buffer = await getAudioContext().decodeAudioData(await recording.audio.arrayBuffer());
+  return { kind: 'audio', buffer, startMs: recording.trimStartMs, durationMs: recording.trimEndMs - recording.trimStartMs };
+};
+
+// Generated in the list's language, so a Cantonese list is read in Cantonese
+const speechSegment = async (text: string, language: Language): Promise<TrackSegment> => {
+  if (!isAIServiceAvailable() && !(await hasCachedSpeech(text, language))) {
+    throw new Error(`Speech service unavailable for "${text}"`);
+  }
+  const audio = await getSpeech(text, language);
+  if (!audio) throw new Error(`No audio for "${text}"`);
+  const buffer = await decodeAudioData(decode(audio), getAudioContext());
+  return { kind: 'audio', buffer, startMs: 0, durationMs: buffer.duration * 1000 };
+};
+
+/**
+ * Renders the list as one WAV file plus a CUE sheet marking where each item starts.
+ * Items read exactly as recorded by a parent use the recording.
+ */
+export const renderDictationAudio = async (
+  items: DictationItem[],
+  mode: DictationMode,
+  language: Language,
+  fileName: string,
+  settings: ExamSettings = DEFAULT_EXAM_SETTINGS,
+  onProgress?: (done: number, total: number) => void
+): Promise<{ wav: Blob; cue: string }> => {
+  const script = buildExamScript(items, mode, language, settings);
+  const speakCount = script.filter(step => step.kind === 'speak').length;
+  const loaded = new Map<string, TrackSegment>();
+  const segments: TrackSegment[] = [];
+  const chapters: Chapter[] = [];
+  let at = 0;
+  let done = 0;
+  let lastChapter = -1;
+
+  for (const step of script) {
+    const item = items[step.itemIndex];
+    if (item && step.itemIndex > lastChapter) {
+      lastChapter = step.itemIndex;
+      chapters.push({ title: chapterTitle(item, step.itemIndex, mode), startMs: at });
+    }
+
+    let segment: TrackSegment;
+    if (step.kind === 'pause') {
+      segment = { kind: 'silence', ms: step.ms };
+    } else {
+      onProgress?.(done++, speakCount);
+      const isReading = item && step.text === practiceTexts(item, mode, language)[0];
+      const key = isReading ? recordingKey(mode, language, item.content) : `speech:${step.text}`;
+      if (!loaded.has(key)) {
+        const recording = isReading ? await getRecording(key) : null;
+        loaded.set(key, recording ? await recordingSegment(recording) : await speechSegment(step.text, language));
+      }
+      segment = loaded.get(key)!;
+    }
+    segments.push(segment);
+    at += segmentMs(segment);
+  }
+  onProgress?.(speakCount, speakCount);
+
+  const buffer = await mixTrack(segments);
+  const title = items.map(item => item.content).join('、').slice(0, 40);
+  return { wav: encodeWav(buffer), cue: buildCueSheet(fileName, title, chapters) };
+};
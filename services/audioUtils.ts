@@ -1,3 +1,7 @@
+import { AudioSettings, SpeechEngineId, VoiceRecording } from "../types";
+import { isAIServiceAvailable } from "./aiProvider";
+import { getSpeech } from "./audioCache";
+
 export const decode = (base64: string): Uint8Array => {
   const binaryString = atob(base64);
   const len = binaryString.length;
@@ -10,7 +14,7 @@ export const decode = (base64: string): Uint8Array => {
 
 export const decodeAudioData = async (
   data: Uint8Array,
-  ctx: AudioContext,
+  ctx: BaseAudioContext,
   sampleRate: number = 24000,
   numChannels: number = 1
 ): Promise<AudioBuffer> => {
@@ -52,3 +56,257 @@ export const playAudioBuffer = (buffer: AudioBuffer, onEnded?: () => void) => {
   };
   source.start();
 };
+
+// --- Cancellation ---
+
+export interface CancelToken {
+  readonly cancelled: boolean;
+  cancel: () => void;
+  onCancel: (listener: () => void) => void; // Runs at once if already cancelled
+}
+
+export const createCancelToken = (): CancelToken => {
+  let cancelled = false;
+  const listeners: (() => void)[] = [];
+  return {
+    get cancelled() {
+      return cancelled;
+    },
+    cancel: () => {
+      if (cancelled) return;
+      cancelled = true;
+      listeners.splice(0).forEach(listener => listener());
+    },
+    onCancel: (listener) => {
+      if (cancelled) listener();
+      else listeners.push(listener);
+    },
+  };
+};
+
+// --- Voices ---
+
+type Language = 'mandarin' | 'cantonese';
+
+const LANGUAGE_TAGS: Record<Language, RegExp> = {
+  cantonese: /^(yue|zh[-_]HK)/i,
+  mandarin: /^(cmn|zh[-_](CN|TW|SG)|zh$)/i,
+};
+
+/**
+ * Browser voices load asynchronously; waits for them briefly on first use.
+ */
+export const loadVoices = (): Promise<SpeechSynthesisVoice[]> =>
+  new Promise(resolve => {
+    if (!('speechSynthesis' in window)) {
+      resolve([]);
+      return;
+    }
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) {
+      resolve(voices);
+      return;
+    }
+    const done = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+    setTimeout(done, 1500);
+  });
+
+/**
+ * Voices that speak the language, e.g. zh-HK or yue voices for Cantonese.
+ */
+export const voicesFor = (voices: SpeechSynthesisVoice[], language: Language): SpeechSynthesisVoice[] =>
+  voices.filter(voice => LANGUAGE_TAGS[language].test(voice.lang));
+
+const findVoice = (language: Language, voiceURI?: string): SpeechSynthesisVoice | undefined => {
+  const voices = voicesFor(window.speechSynthesis.getVoices(), language);
+  return voices.find(voice => voice.voiceURI === voiceURI) || voices[0];
+};
+
+// --- Engines ---
+
+export interface SpeechRequest {
+  text: string;
+  language: Language;
+  rate: number; // 1 is normal speed; only browser voices honour it
+  recording?: VoiceRecording | null; // A parent's recording of this text, preferred when present
+}
+
+export interface SpeechEngine {
+  id: SpeechEngineId;
+  isAvailable: () => boolean;
+  // Resolves when playback ends or is cancelled; rejects if nothing could be played
+  speak: (request: SpeechRequest, settings: AudioSettings, token: CancelToken) => Promise<void>;
+}
+
+const browserEngine: SpeechEngine = {
+  id: 'browser',
+  isAvailable: () => 'speechSynthesis' in window,
+  speak: (request, settings, token) =>
+    new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(request.text);
+      const voice = findVoice(request.language, settings.voiceURI);
+      // Without a matching voice the browser picks one from the language tag
+      if (voice) utterance.voice = voice;
+      utterance.lang = request.language === 'cantonese' ? 'zh-HK' : 'zh-CN';
+      utterance.rate = request.rate;
+      utterance.onend = () => resolve();
+      utterance.onerror = (event) => {
+        if (token.cancelled || event.error === 'interrupted' || event.error === 'canceled') resolve();
+        else reject(new Error(event.error));
+      };
+      token.onCancel(() => window.speechSynthesis.cancel());
+      if (!token.cancelled) window.speechSynthesis.speak(utterance);
+    }),
+};
+
+const playBuffer = (buffer: AudioBuffer, token: CancelToken): Promise<void> =>
+  new Promise(resolve => {
+    const ctx = getAudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    source.onended = () => resolve();
+    token.onCancel(() => {
+      try {
+        source.stop();
+      } catch {
+        // Not started yet
+      }
+      resolve();
+    });
+    if (!token.cancelled) source.start();
+  });
+
+const geminiEngine: SpeechEngine = {
+  id: 'gemini',
+  isAvailable: isAIServiceAvailable,
+  speak: async (request, settings, token) => {
+    const audio = await getSpeech(request.text, request.language);
+    if (!audio) throw new Error('No audio returned');
+    if (token.cancelled) return;
+    const buffer = await decodeAudioData(decode(audio), getAudioContext());
+    await playBuffer(buffer, token);
+  },
+};
+
+// Plays the trimmed range of a recording
+const playRecording = (recording: VoiceRecording, token: CancelToken): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(recording.audio);
+    const audio = new Audio(url);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(timer);
+      audio.pause();
+      URL.revokeObjectURL(url);
+      resolve();
+    };
+    audio.onended = finish;
+    audio.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Recording could not be played'));
+    };
+    token.onCancel(finish);
+    if (token.cancelled) return;
+    // Seeking before the metadata has loaded is ignored for MediaRecorder webm blobs
+    const start = () => {
+      if (token.cancelled) return;
+      audio.currentTime = recording.trimStartMs / 1000;
+      audio.play()
+        .then(() => {
+          timer = setTimeout(finish, recording.trimEndMs - recording.trimStartMs);
+        })
+        .catch(reject);
+    };
+    if (audio.readyState >= HTMLMediaElement.HAVE_METADATA) start();
+    else audio.addEventListener('loadedmetadata', start, { once: true });
+  });
+
+const recordingEngine: SpeechEngine = {
+  id: 'recording',
+  isAvailable: () => typeof Audio !== 'undefined',
+  speak: async (request, settings, token) => {
+    if (!request.recording) throw new Error('No recording');
+    await playRecording(request.recording, token);
+  },
+};
+
+export const SPEECH_ENGINES: Record<SpeechEngineId, SpeechEngine> = {
+  browser: browserEngine,
+  gemini: geminiEngine,
+  recording: recordingEngine,
+};
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = {
+  engine: 'browser',
+};
+
+/**
+ * Plays one request: the recording if there is one, else the chosen engine.
+ * Falls back to the browser voice when the chosen source fails.
+ */
+const speakOnce = async (request: SpeechRequest, settings: AudioSettings, token: CancelToken) => {
+  const order: SpeechEngineId[] = [...(request.recording ? ['recording' as const] : []), settings.engine, 'browser'];
+  for (const id of Array.from(new Set(order))) {
+    const engine = SPEECH_ENGINES[id];
+    if (token.cancelled) return;
+    if (!engine.isAvailable()) continue;
+    try {
+      await engine.speak(request, settings, token);
+      return;
+    } catch (error) {
+      console.error(`Error playing audio with ${id}:`, error);
+    }
+  }
+};
+
+// --- Queue ---
+
+// Entries play one after another; cancelSpeech() stops the current one and drops the rest
+let queueTail: Promise<unknown> = Promise.resolve();
+let queueToken = createCancelToken();
+
+const enqueue = (play: (token: CancelToken) => Promise<void>): Promise<boolean> => {
+  const token = queueToken;
+  const entry = queueTail.then(async () => {
+    if (token.cancelled) return false;
+    await play(token);
+    return !token.cancelled;
+  });
+  queueTail = entry.catch(() => false);
+  return entry;
+};
+
+/**
+ * Queues speech and resolves once it has been heard: true when it played to
+ * the end, false when it was cancelled first.
+ */
+export const enqueueSpeech = (request: SpeechRequest, settings: AudioSettings = DEFAULT_AUDIO_SETTINGS): Promise<boolean> =>
+  enqueue(token => speakOnce(request, settings, token));
+
+/**
+ * Queues a silent gap, e.g. between an idiom and its meaning.
+ */
+export const enqueueSilence = (ms: number): Promise<boolean> =>
+  enqueue(token => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    token.onCancel(() => {
+      clearTimeout(timer);
+      resolve();
+    });
+  }));
+
+/**
+ * Queues a recording on its own, e.g. to preview a trim.
+ */
+export const enqueueRecording = (recording: VoiceRecording): Promise<boolean> =>
+  enqueue(token => playRecording(recording, token));
+
+export const cancelSpeech = () => {
+  queueToken.cancel();
+  queueToken = createCancelToken();
+};
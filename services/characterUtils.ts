@@ -0,0 +1,21 @@
+import { DictationItem } from "../types";
+
+/**
+ * What is read aloud for a single character: the character on its own is
+ * ambiguous by ear, so it is read with a word, e.g. "蘋果嘅蘋" in Cantonese
+ * or "蘋果的蘋" in Mandarin.
+ */
+export const characterCue = (item: DictationItem, language: 'mandarin' | 'cantonese'): string => {
+  const word = item.cueWord || item.commonWords?.find(w => w.includes(item.content));
+  if (!word || word === item.content) return item.content;
+  return `${word}${language === 'cantonese' ? '嘅' : '的'}${item.content}`;
+};
+
+/**
+ * The cue word with the character itself left blank, e.g. "＿果", as a
+ * written hint on worksheets.
+ */
+export const maskedCueWord = (item: DictationItem): string => {
+  const word = item.cueWord || item.commonWords?.[0] || '';
+  return word.split(item.content).join('＿');
+};
@@ -0,0 +1,127 @@
+import { ChineseScript, DictationItem } from "../types";
+import {
+  HK_VARIANTS,
+  SIMPLIFIED_DEFAULTS,
+  SIMPLIFIED_WORDS,
+  TRADITIONAL_SIMPLIFIED_PAIRS,
+  ZHU_WORDS,
+} from "./data/scriptTable";
+
+interface ConversionTable {
+  chars: Map<string, string>;
+  words: Record<string, string>;
+  longestWord: number;
+}
+
+const buildTable = (chars: Map<string, string>, words: Record<string, string>): ConversionTable => ({
+  chars,
+  words,
+  longestWord: Math.max(0, ...Object.keys(words).map(word => Array.from(word).length)),
+});
+
+const PAIRS = TRADITIONAL_SIMPLIFIED_PAIRS.flatMap(line => line.split(' ')).map(pair => Array.from(pair));
+
+const TO_SIMPLIFIED_CHARS = new Map(PAIRS.map(([traditional, simplified]) => [traditional, simplified]));
+
+const TO_TRADITIONAL_CHARS = new Map<string, string>();
+PAIRS.forEach(([traditional, simplified]) => {
+  if (!TO_TRADITIONAL_CHARS.has(simplified)) TO_TRADITIONAL_CHARS.set(simplified, traditional);
+});
+Object.entries(SIMPLIFIED_DEFAULTS).forEach(([simplified, traditional]) => TO_TRADITIONAL_CHARS.set(simplified, traditional));
+
+// 著名 stays 著名 in Simplified; every other 著 becomes 着
+const simplifyKeepingZhu = (word: string) =>
+  Array.from(word).map(char => (char === '著' ? char : TO_SIMPLIFIED_CHARS.get(char) || char)).join('');
+
+const TO_SIMPLIFIED = buildTable(
+  TO_SIMPLIFIED_CHARS,
+  Object.fromEntries(ZHU_WORDS.map(word => [word, simplifyKeepingZhu(word)]))
+);
+
+const TO_TRADITIONAL = buildTable(TO_TRADITIONAL_CHARS, {
+  ...SIMPLIFIED_WORDS,
+  ...Object.fromEntries(ZHU_WORDS.map(word => [simplifyKeepingZhu(word), word])),
+});
+
+const TO_HK_FORMS = buildTable(
+  new Map(Object.entries(HK_VARIANTS)),
+  Object.fromEntries(ZHU_WORDS.map(word => [word, word]))
+);
+
+/**
+ * Converts text character by character, letting the longest listed word
+ * starting at each position decide its own spelling.
+ */
+const convertText = (table: ConversionTable, text: string): string => {
+  const chars = Array.from(text);
+  let result = '';
+  let i = 0;
+  while (i < chars.length) {
+    let matched = false;
+    for (let length = Math.min(table.longestWord, chars.length - i); length >= 2; length--) {
+      const word = chars.slice(i, i + length).join('');
+      if (table.words[word]) {
+        result += table.words[word];
+        i += length;
+        matched = true;
+        break;
+      }
+    }
+    if (matched) continue;
+    const char = chars[i++];
+    result += table.chars.get(char) || char;
+  }
+  return result;
+};
+
+/**
+ * Converts Traditional Chinese text to Simplified.
+ */
+export const toSimplified = (text: string): string => convertText(TO_SIMPLIFIED, text);
+
+/**
+ * Converts Simplified Chinese text to Traditional, using the forms taught
+ * in Hong Kong (e.g. 着 and 裏 rather than 著 and 裡).
+ */
+export const toTraditional = (text: string): string =>
+  convertText(TO_HK_FORMS, convertText(TO_TRADITIONAL, text));
+
+/**
+ * Guesses the script of a text by counting characters that only exist in
+ * one of the two scripts. Text with no such characters counts as Traditional.
+ */
+export const detectScript = (text: string): ChineseScript => {
+  let traditional = 0;
+  let simplified = 0;
+  Array.from(text).forEach(char => {
+    if (TO_SIMPLIFIED_CHARS.has(char)) traditional++;
+    else if (TO_TRADITIONAL_CHARS.has(char) && TO_TRADITIONAL_CHARS.get(char) !== char) simplified++;
+  });
+  return simplified > traditional ? 'simplified' : 'traditional';
+};
+
+export const detectItemsScript = (items: DictationItem[]): ChineseScript =>
+  detectScript(items.map(item => item.content).join(''));
+
+/**
+ * Rewrites a whole list in the target script. Only the Chinese text fields
+ * are touched; Pinyin and Jyutping are left as they are. Traditional lists
+ * are still normalised to the Hong Kong forms.
+ */
+export const convertItems = (items: DictationItem[], target: ChineseScript): DictationItem[] => {
+  const convert = target === 'simplified'
+    ? toSimplified
+    : detectItemsScript(items) === 'simplified'
+      ? toTraditional
+      : (text: string) => convertText(TO_HK_FORMS, text);
+
+  return items.map(item => ({
+    ...item,
+    content: convert(item.content),
+    meaning: item.meaning && convert(item.meaning),
+    example: item.example && convert(item.example),
+    clozeContent: item.clozeContent && convert(item.clozeContent),
+    commonWords: item.commonWords?.map(convert),
+    cueWord: item.cueWord && convert(item.cueWord),
+  }));
+};
@@ -0,0 +1,194 @@
+import { ClozeDifficulty, ClozeSettings, DictationItem, DictationMode, WordClass } from "../types";
+import { segmentWords } from "./textUtils";
+
+export const BLANK = '______';
+const BLANK_REGEX = /_{2,}/g;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns the words hidden by the blanks, or null if the cloze text does
+ * not line up with the source (e.g. after editing one but not the other).
+ */
+export const matchCloze = (source: string, cloze: string): string[] | null => {
+  const segments = cloze.split(BLANK_REGEX).map(escapeRegex);
+  if (segments.length < 2) return null;
+  const pattern = new RegExp(`^${segments.join('(.+?)')}$`, 'u');
+  const match = source.replace(/\s/g, '').match(pattern);
+  return match ? match.slice(1) : null;
+};
+
+// Only sentences and words are practised as clozes
+export const hasCloze = (mode: DictationMode) => mode === 'paragraph' || mode === 'vocab';
+
+/**
+ * Checks that an item's clozeContent still matches its content.
+ * Vocab clozes are built from the example sentence and must hide the word itself.
+ * Returns a message for the review table, or null when the item is fine.
+ */
+export const checkCloze = (item: DictationItem, mode: DictationMode): string | null => {
+  if (!hasCloze(mode)) return null;
+
+  const cloze = (item.clozeContent || '').replace(/\s/g, '');
+  if (!cloze) return '缺少填充題 (Missing cloze)';
+  if (!/_{2,}/.test(cloze)) return '填充題沒有空格 (No blanks)';
+
+  if (mode === 'vocab') {
+    const example = item.example || '';
+    if (!example.includes(item.content)) return '例句不包含詞語 (Example does not contain the word)';
+    if (!matchCloze(example, cloze)) return '填充題與例句不符 (Cloze does not match example)';
+    // Easy clozes keep the first character as a hint, so only require the word itself to be hidden
+    if (cloze.includes(item.content)) return '空格不是目標詞語 (Blank is not the target word)';
+    return null;
+  }
+
+  return matchCloze(item.content, cloze) ? null : '填充題與句子不符 (Cloze does not match content)';
+};
+
+// Function words by class. Kept classes stay visible so the sentence still reads.
+const WORD_CLASSES: Record<WordClass, string[]> = {
+  particle: ['的', '了', '著', '着', '地', '得', '過', '嗎', '呢', '吧', '啊', '呀', '啦'],
+  pronoun: ['我', '你', '他', '她', '它', '我們', '你們', '他們', '她們', '它們', '自己', '大家', '這', '那', '這個', '那個', '這裏', '這裡', '那裏', '那裡'],
+  connective: [
+    '在', '是', '有', '和', '與', '跟', '也', '都', '就', '還', '很', '又', '才', '把', '被', '給', '對', '從', '向', '到', '不',
+    '但是', '可是', '因為', '所以', '如果', '而且', '然後', '或者', '還是', '不但', '雖然', '只要',
+  ],
+  number: ['一', '二', '兩', '三', '四', '五', '六', '七', '八', '九', '十', '百', '千', '萬', '幾', '個', '隻', '本', '張', '條', '些'],
+};
+
+const WORD_CLASS_OF = new Map<string, WordClass>();
+(Object.keys(WORD_CLASSES) as WordClass[]).forEach(wordClass =>
+  WORD_CLASSES[wordClass].forEach(word => WORD_CLASS_OF.set(word, wordClass))
+);
+const NUMBER_CHARS = new Set(WORD_CLASSES.number);
+
+const classifyWord = (word: string): WordClass | null => {
+  if (WORD_CLASS_OF.has(word)) return WORD_CLASS_OF.get(word)!;
+  // Number + measure word compounds such as "三隻"
+  return Array.from(word).every(char => NUMBER_CHARS.has(char)) ? 'number' : null;
+};
+
+export const isFunctionWord = (word: string) => classifyWord(word) !== null;
+
+// Share of content words blanked at each preset
+export const DIFFICULTY_RATIOS: Record<Exclude<ClozeDifficulty, 'custom'>, number> = {
+  easy: 0.3,
+  medium: 0.5,
+  hard: 0.67,
+};
+
+export const DEFAULT_CLOZE_SETTINGS: ClozeSettings = {
+  difficulty: 'hard',
+  customRatio: 0.67,
+  keepWordClasses: ['particle', 'pronoun', 'connective', 'number'],
+};
+
+export const clozeRatio = (settings: ClozeSettings): number =>
+  settings.difficulty === 'custom'
+    ? Math.min(1, Math.max(0, settings.customRatio))
+    : DIFFICULTY_RATIOS[settings.difficulty];
+
+// The segmenter often glues these onto a neighbour ("今天是", "我去")
+const LEADING_FUNCTION_CHARS = new Set(['我', '你', '他', '她', '它', '在', '和', '把', '被', '也', '都', '就', '很']);
+const TRAILING_FUNCTION_CHARS = new Set(['是', '了', '的', '著', '着', '地', '得', '和', '嗎', '呢', '吧']);
+
+const peelFunctionChars = (word: string): string[] => {
+  if (WORD_CLASS_OF.has(word)) return [word];
+  const chars = Array.from(word);
+  if (chars.length < 2) return [word];
+  if (LEADING_FUNCTION_CHARS.has(chars[0])) {
+    return [chars[0], ...peelFunctionChars(chars.slice(1).join(''))];
+  }
+  if (TRAILING_FUNCTION_CHARS.has(chars[chars.length - 1])) {
+    return [...peelFunctionChars(chars.slice(0, -1).join('')), chars[chars.length - 1]];
+  }
+  return [word];
+};
+
+/**
+ * Splits a sentence into words for cloze generation, with function words
+ * separated from the content words they were segmented together with.
+ */
+export const clozeWords = (sentence: string): { text: string; isWord: boolean }[] =>
+  segmentWords(sentence).flatMap(segment =>
+    segment.isWord ? peelFunctionChars(segment.text).map(text => ({ text, isWord: true })) : [segment]
+  );
+
+/**
+ * Builds a cloze sentence locally. Punctuation and words of the kept classes
+ * stay; of the remaining words, the configured share is blanked, spread
+ * evenly through the sentence. Neighbouring blanks are merged.
+ */
+export const generateCloze = (
+  sentence: string,
+  settings: ClozeSettings = DEFAULT_CLOZE_SETTINGS,
+  keepEdges: { start?: boolean; end?: boolean } = {}
+): string => {
+  const ratio = clozeRatio(settings);
+  const segments = clozeWords(sentence);
+  const words = segments.map((word, idx) => {
+    const wordClass = word.isWord ? classifyWord(word.text) : null;
+    const atKeptEdge = (keepEdges.start && idx === 0) || (keepEdges.end && idx === segments.length - 1);
+    const candidate = word.isWord && !atKeptEdge && !(wordClass && settings.keepWordClasses.includes(wordClass));
+    return { ...word, candidate };
+  });
+
+  const candidateCount = words.filter(w => w.candidate).length;
+  // At least one blank whenever there is something to blank
+  const target = candidateCount > 0 ? Math.max(1, Math.round(candidateCount * ratio)) : 0;
+
+  const parts: string[] = [];
+  let seen = 0;
+  words.forEach(word => {
+    let blank = false;
+    if (word.candidate) {
+      // Even spread: blank when the running quota crosses a whole number
+      blank = Math.floor(((seen + 1) * target) / candidateCount) > Math.floor((seen * target) / candidateCount);
+      seen++;
+    }
+    if (!blank) {
+      parts.push(word.text);
+    } else if (parts[parts.length - 1] !== BLANK) {
+      parts.push(BLANK);
+    }
+  });
+  return parts.join('');
+};
+
+/**
+ * Vocab cloze for the item's example sentence. Easy keeps the first character
+ * of the word as a hint (one-character words are blanked whole), medium
+ * blanks the word, hard also blanks half its ratio of the other words, and
+ * custom blanks the other words at the custom ratio.
+ */
+export const generateVocabCloze = (word: string, example: string, settings: ClozeSettings = DEFAULT_CLOZE_SETTINGS): string => {
+  if (!example.includes(word)) return '';
+  const chars = Array.from(word);
+
+  const othersRatio = settings.difficulty === 'custom' ? clozeRatio(settings) : clozeRatio(settings) / 2;
+  switch (settings.difficulty) {
+    case 'easy':
+      return example.replace(word, chars.length > 1 ? `${chars[0]}${BLANK}` : BLANK);
+    case 'medium':
+      return example.replace(word, BLANK);
+    default: {
+      // generateCloze always blanks something, so a zero ratio hides only the word
+      if (othersRatio === 0) return example.replace(word, BLANK);
+      const [before, ...rest] = example.split(word);
+      const after = rest.join(word);
+      const others = { ...settings, difficulty: 'custom' as const, customRatio: othersRatio };
+      // Words touching the target stay visible so its blank stands alone
+      return `${before ? generateCloze(before, others, { end: true }) : ''}${BLANK}${after ? generateCloze(after, others, { start: true }) : ''}`;
+    }
+  }
+};
+
+/**
+ * Rebuilds an item's cloze from its content (or example) at new settings,
+ * without running OCR again.
+ */
+export const regenerateCloze = (item: DictationItem, mode: DictationMode, settings: ClozeSettings): DictationItem => {
+  if (mode === 'paragraph') return { ...item, clozeContent: generateCloze(item.content, settings) };
+  if (mode === 'vocab' && item.example) return { ...item, clozeContent: generateVocabCloze(item.content, item.example, settings) };
+  return item;
+};
@@ -0,0 +1,23 @@
+// Characters children commonly mix up in dictation. Each string is one group;
+// any member may be written for any other. Only Traditional (HK) forms.
+
+// 形近字: characters that look alike
+export const SHAPE_GROUPS: string[] = [
+  '己已巳', '人入八', '未末', '土士', '日曰', '戊戌戍', '爪瓜', '折拆', '侯候',
+  '問間', '免兔', '鳥烏', '貝見', '大太犬', '天夭', '王玉主', '今令', '刀力', '干千',
+  '辦辨辯瓣', '住往', '晴睛請清情精', '蜂峰鋒', '輸輪', '揚楊陽', '找我', '綠緣', '狠狼', '渴喝',
+  '幕墓慕暮', '頻蘋', '徑經輕', '博傅', '撥潑', '喚換', '偷愉', '密蜜', '鳴嗚', '治冶',
+  '析折', '即既', '祝視', '衣表', '買賣', '貨貸', '壞懷', '環還',
+  '錯借', '很根跟', '紅江', '坡波破玻', '跑泡抱飽', '清青', '急怠', '芽牙呀', '拾恰', '歡觀',
+];
+
+// 同音字: characters read the same in Cantonese or Mandarin. Pairs that are both
+// accepted in HK (週/周, 帳/賬, 記錄/紀錄) and words whose choice depends on
+// context (他/她, 那/哪) are left out, so a correct character is never planted as an error.
+export const SOUND_GROUPS: string[] = [
+  '再在', '做作', '的得地', '已以', '帶戴', '座坐', '部步',
+  '燥躁', '園圓', '原源', '進近', '尤由油', '竟境', '到道', '合和', '式試事',
+  '常嘗', '歷曆', '練煉', '副付', '意議', '因音', '重眾', '提題', '漂飄',
+  '功工公', '反返', '期旗', '和荷', '會匯', '係繫', '蹤縱', '籃藍',
+  '優憂', '密秘', '剛崗',
+];
@@ -0,0 +1,53 @@
+// Top-level components of characters children often confuse, as
+// "radical components". The radical is written in the form it takes inside
+// the character (氵 for 水) and is always one of the components. Only
+// Traditional (HK) forms.
+export const DECOMPOSITIONS: Record<string, string> = {
+  晴: '日 日青', 睛: '目 目青', 請: '言 言青', 清: '氵 氵青', 情: '忄 忄青', 精: '米 米青',
+  蜂: '虫 虫夆', 峰: '山 山夆', 鋒: '金 金夆',
+  輸: '車 車俞', 偷: '亻 亻俞', 愉: '忄 忄俞', 輪: '車 車侖', 論: '言 言侖',
+  揚: '扌 扌昜', 楊: '木 木昜', 陽: '阝 阝昜', 場: '土 土昜', 湯: '氵 氵昜',
+  綠: '糸 糸彔', 緣: '糸 糸彖',
+  狠: '犭 犭艮', 很: '彳 彳艮', 根: '木 木艮', 跟: '足 足艮', 眼: '目 目艮', 銀: '金 金艮', 狼: '犭 犭良',
+  渴: '氵 氵曷', 喝: '口 口曷',
+  幕: '巾 莫巾', 墓: '土 莫土', 慕: '心 莫心', 暮: '日 莫日',
+  頻: '頁 步頁', 蘋: '艹 艹頻',
+  徑: '彳 彳巠', 經: '糸 糸巠', 輕: '車 車巠',
+  博: '十 十尃', 傅: '亻 亻尃',
+  撥: '扌 扌發', 潑: '氵 氵發',
+  喚: '口 口奐', 換: '扌 扌奐',
+  密: '宀 宀必山', 蜜: '虫 宀必虫',
+  鳴: '鳥 口鳥', 嗚: '口 口烏',
+  治: '氵 氵台', 冶: '冫 冫台',
+  析: '木 木斤', 折: '扌 扌斤', 拆: '扌 扌斥',
+  即: '卩 皀卩', 既: '旡 皀旡',
+  祝: '礻 礻兄', 視: '見 礻見',
+  貨: '貝 化貝', 貸: '貝 代貝',
+  壞: '土 土褱', 懷: '忄 忄褱',
+  環: '王 王睘', 還: '辶 辶睘',
+  錯: '金 金昔', 借: '亻 亻昔',
+  紅: '糸 糸工', 江: '氵 氵工', 功: '力 工力', 攻: '攵 工攵',
+  坡: '土 土皮', 波: '氵 氵皮', 破: '石 石皮', 玻: '王 王皮',
+  跑: '足 足包', 泡: '氵 氵包', 抱: '扌 扌包', 飽: '食 食包',
+  芽: '艹 艹牙', 呀: '口 口牙',
+  拾: '扌 扌合', 恰: '忄 忄合',
+  住: '亻 亻主', 往: '彳 彳主',
+  問: '口 門口', 間: '門 門日', 們: '亻 亻門', 悶: '心 門心',
+  買: '貝 罒貝', 賣: '貝 士罒貝',
+  辦: '辛 辛力辛', 辨: '辛 辛刂辛', 辯: '辛 辛言辛', 瓣: '瓜 辛瓜辛',
+  晚: '日 日免', 挽: '扌 扌免',
+  河: '氵 氵可', 何: '亻 亻可',
+  材: '木 木才', 財: '貝 貝才',
+  把: '扌 扌巴', 爸: '父 父巴', 吧: '口 口巴', 爬: '爪 爪巴',
+  媽: '女 女馬', 嗎: '口 口馬', 碼: '石 石馬', 螞: '虫 虫馬',
+  議: '言 言義', 儀: '亻 亻義',
+  識: '言 言戠', 織: '糸 糸戠', 職: '耳 耳戠',
+  誰: '言 言隹', 推: '扌 扌隹', 堆: '土 土隹',
+  湖: '氵 氵胡', 糊: '米 米胡', 蝴: '虫 虫胡',
+  園: '囗 囗袁', 圓: '囗 囗員', 遠: '辶 辶袁',
+  跳: '足 足兆', 桃: '木 木兆', 逃: '辶 辶兆',
+  館: '食 食官', 管: '竹 竹官',
+  球: '王 王求', 救: '攵 求攵',
+  洋: '氵 氵羊', 樣: '木 木羕',
+  詞: '言 言司', 飼: '食 食司',
+};
@@ -0,0 +1,867 @@
+// Common characters from primary school word lists, grouped by their usual
+// Jyutping reading. A character listed under several syllables keeps the first.
+export const JYUTPING_SYLLABLES: Record<string, string> = {
+  aa3: '亞阿啊呀',
+  aan3: '晏',
+  aap3: '鴨',
+  ai2: '矮',
+  ak1: '握',
+  au1: '歐',
+  au2: '嘔',
+  baa1: '巴爸疤芭',
+  baa2: '把',
+  baa3: '霸壩',
+  baa6: '罷吧',
+  baai2: '擺',
+  baai3: '拜',
+  baai6: '敗',
+  baak3: '百伯柏',
+  baak6: '白',
+  baan1: '班斑頒',
+  baan2: '板版',
+  baan6: '辦',
+  baat3: '八',
+  baau1: '包胞',
+  baau2: '飽',
+  baau3: '爆豹',
+  bai3: '閉',
+  bai6: '幣弊',
+  bak1: '北',
+  ban1: '彬賓濱',
+  ban2: '品',
+  ban6: '笨',
+  bat1: '不筆畢',
+  bei1: '悲碑卑',
+  bei2: '比彼俾',
+  bei3: '臂秘',
+  bei6: '鼻備被',
+  beng2: '餅',
+  beng6: '病',
+  bik1: '逼迫碧壁',
+  bin1: '邊鞭編',
+  bin2: '扁',
+  bin3: '變遍',
+  bin6: '便辨辯',
+  bing1: '冰兵',
+  bing6: '並',
+  bit6: '別',
+  biu1: '標錶',
+  biu2: '表',
+  bo1: '波玻菠坡',
+  bo3: '播',
+  bok3: '博駁',
+  bok6: '薄',
+  bong1: '幫邦',
+  bong2: '綁榜',
+  bong6: '磅',
+  bou1: '煲',
+  bou2: '保寶補堡',
+  bou3: '報布佈',
+  bou6: '步部簿',
+  bui1: '杯',
+  bui3: '背貝輩',
+  bun1: '般搬',
+  bun2: '本',
+  bun3: '半',
+  bun6: '伴',
+  caa1: '叉差',
+  caa4: '茶查',
+  caai4: '柴',
+  caak3: '拆冊策',
+  caam1: '參',
+  caam4: '蠶慚',
+  caan1: '餐',
+  caan2: '產鏟',
+  caang2: '橙',
+  caap3: '插',
+  caat3: '察擦刷',
+  caau1: '抄鈔',
+  caau2: '炒吵',
+  caau4: '巢',
+  cai1: '妻淒',
+  cai3: '砌',
+  cai4: '齊',
+  cam4: '尋沉',
+  can1: '親',
+  can3: '趁襯',
+  can4: '陳塵',
+  cang4: '層曾',
+  cat1: '七漆',
+  cau1: '秋抽',
+  cau2: '醜丑',
+  cau3: '臭',
+  cau4: '愁仇籌',
+  ce1: '車',
+  ce2: '扯且',
+  ceng2: '請',
+  ceoi1: '吹催趨',
+  ceoi2: '取娶',
+  ceoi3: '趣脆翠',
+  ceoi4: '除隨徐錘',
+  ceon1: '春',
+  ceon4: '巡循',
+  ceot1: '出',
+  ci1: '痴雌',
+  ci2: '此齒恥始',
+  ci3: '次刺廁',
+  ci4: '詞辭慈池持遲匙',
+  cik1: '尺斥赤戚',
+  cim1: '簽籤',
+  cin1: '千遷',
+  cin2: '淺',
+  cin4: '前錢',
+  cing1: '清青稱蜻',
+  cing4: '情晴程',
+  cit3: '切設徹',
+  ciu1: '超',
+  ciu4: '潮',
+  co1: '初搓',
+  co2: '楚礎',
+  co3: '錯',
+  co5: '坐',
+  coek3: '桌',
+  coeng1: '窗槍昌',
+  coeng2: '搶廠',
+  coeng3: '唱',
+  coeng4: '長場牆腸祥詳',
+  coi2: '彩採',
+  coi3: '菜',
+  coi4: '才財材裁',
+  cong1: '倉蒼瘡艙',
+  cong4: '床藏',
+  cou1: '粗操',
+  cou2: '草',
+  cou3: '醋',
+  cuk1: '束促',
+  cung1: '沖衝聰蔥充匆',
+  cung4: '蟲從叢',
+  cyu3: '處',
+  cyu4: '廚',
+  cyu5: '柱',
+  cyun1: '穿川村',
+  cyun4: '全存傳泉拳',
+  daa2: '打',
+  daai3: '帶戴',
+  daai6: '大代袋',
+  daam1: '擔耽',
+  daam2: '膽',
+  daam6: '淡',
+  daan1: '單丹',
+  daan3: '誕',
+  daan6: '但蛋彈',
+  daap3: '答搭',
+  daat6: '達',
+  dai1: '低',
+  dai2: '底抵',
+  dai3: '帝蒂',
+  dai6: '弟第',
+  dak1: '得德',
+  dang1: '燈登',
+  dang2: '等',
+  dang3: '凳',
+  de1: '爹',
+  dei6: '地',
+  deoi1: '堆',
+  deoi3: '對',
+  deoi6: '隊',
+  deon1: '敦噸',
+  deon6: '頓',
+  dik1: '的滴',
+  dik6: '笛敵',
+  dim2: '點典',
+  dim3: '店',
+  din1: '顛',
+  din6: '電殿',
+  ding1: '丁叮釘',
+  ding2: '頂',
+  ding6: '定',
+  diu1: '丟雕',
+  diu3: '釣吊',
+  diu6: '掉',
+  do1: '多',
+  do2: '朵躲',
+  doi6: '待',
+  dong1: '當噹',
+  dong2: '黨擋',
+  dou1: '都刀',
+  dou2: '島倒賭',
+  dou3: '到',
+  dou6: '道度渡盜導',
+  duk1: '督',
+  duk6: '讀獨毒',
+  dung1: '東冬',
+  dung2: '懂董',
+  dung3: '凍棟',
+  dung6: '動洞',
+  dyun1: '端',
+  dyun2: '短',
+  dyun3: '鍛',
+  dyun6: '段斷',
+  faa1: '花',
+  faa3: '化',
+  faai3: '快塊筷',
+  faan1: '翻番帆',
+  faan2: '反返',
+  faan4: '凡煩繁',
+  faan6: '飯犯範',
+  faat3: '法髮發',
+  fai3: '費肺廢',
+  fan1: '分紛芬婚',
+  fan2: '粉',
+  fan3: '訓瞓',
+  fan4: '墳',
+  fan6: '份',
+  fat1: '忽',
+  fat6: '佛',
+  fau2: '否',
+  fau4: '浮',
+  fei1: '飛非啡菲',
+  fei4: '肥',
+  fo1: '科棵',
+  fo2: '火伙夥',
+  fo3: '課貨',
+  fong1: '方芳',
+  fong2: '訪紡',
+  fong3: '放',
+  fong4: '房防妨',
+  fu1: '夫膚',
+  fu2: '苦虎府斧',
+  fu3: '富副褲',
+  fu4: '扶符',
+  fu6: '父婦負附',
+  fui1: '灰恢',
+  fuk1: '福幅',
+  fuk6: '服伏復複',
+  fun1: '歡寬',
+  fung1: '風封峰蜂豐楓',
+  fung4: '逢馮縫',
+  gaa1: '家加傢嘉',
+  gaa2: '假',
+  gaa3: '價架嫁駕',
+  gaai1: '街佳皆階',
+  gaai2: '解',
+  gaai3: '界介戒',
+  gaak3: '隔格',
+  gaam1: '監',
+  gaam2: '減',
+  gaan1: '間艱',
+  gaan2: '簡揀',
+  gaap3: '甲夾',
+  gaau1: '交郊膠',
+  gaau2: '搞攪',
+  gaau3: '教較',
+  gai1: '雞',
+  gai3: '計繼',
+  gam1: '今金甘柑',
+  gam2: '感敢錦',
+  gam3: '咁禁',
+  gan1: '跟根斤巾',
+  gan2: '緊謹',
+  gan6: '近',
+  gang1: '耕',
+  gang3: '更',
+  gap3: '鴿',
+  gat1: '吉',
+  gau1: '溝鈎勾',
+  gau2: '九久狗韭',
+  gau3: '夠救究',
+  gau6: '舊',
+  ge3: '嘅',
+  gei1: '機基肌',
+  gei2: '幾己紀',
+  gei3: '記寄',
+  gei6: '技忌',
+  geng1: '驚',
+  geng2: '頸',
+  geng3: '鏡',
+  geoi1: '居',
+  geoi2: '舉',
+  geoi3: '句據鋸',
+  geoi6: '具巨拒懼距',
+  gik1: '擊激',
+  gin3: '見建',
+  gin6: '件健',
+  ging1: '京經',
+  ging2: '景警境',
+  ging3: '敬竟',
+  git3: '結潔',
+  giu1: '嬌驕',
+  giu3: '叫',
+  go1: '哥歌',
+  go3: '個',
+  goek3: '腳',
+  goeng1: '薑疆',
+  gok3: '各角覺閣',
+  gon1: '乾肝竿',
+  gon2: '趕',
+  gon3: '幹',
+  gong1: '江崗剛',
+  gong2: '講港',
+  gong3: '降',
+  gou1: '高糕',
+  gou2: '稿',
+  gou3: '告',
+  gu1: '姑菇孤',
+  gu2: '古鼓股',
+  gu3: '故固顧',
+  guk1: '谷穀菊',
+  gun2: '館管',
+  gun3: '罐',
+  gung1: '工公功弓攻宮',
+  gung3: '貢',
+  gung6: '共',
+  gwaa1: '瓜',
+  gwaa3: '掛',
+  gwaai1: '乖',
+  gwaai2: '拐',
+  gwaai3: '怪',
+  gwaan1: '關',
+  gwaan3: '慣',
+  gwai1: '歸規龜',
+  gwai2: '鬼',
+  gwai3: '貴季桂',
+  gwai6: '櫃跪',
+  gwan1: '軍君均',
+  gwan2: '滾',
+  gwan3: '棍',
+  gwat1: '骨',
+  gwo1: '鍋',
+  gwo2: '果',
+  gwo3: '過',
+  gwok3: '國',
+  gwong1: '光',
+  gwong2: '廣',
+  gyun1: '捐',
+  gyun6: '倦',
+  haa1: '蝦',
+  haa6: '下夏',
+  haai4: '鞋孩',
+  haak1: '黑',
+  haak3: '客嚇',
+  haam4: '鹹',
+  haan4: '閒',
+  haang4: '行',
+  haau2: '考',
+  haau6: '校',
+  hai2: '喺',
+  hai6: '係',
+  han2: '很',
+  hang4: '恆',
+  hau2: '口',
+  hau6: '後候厚',
+  hei1: '希稀',
+  hei2: '起喜',
+  hei3: '氣戲器',
+  hek3: '吃喫',
+  him2: '險',
+  hin2: '顯',
+  hing1: '兄輕',
+  hing3: '興慶',
+  hip3: '協',
+  ho2: '可',
+  ho4: '河何荷',
+  ho6: '賀',
+  hoeng1: '香鄉',
+  hoeng2: '響',
+  hoeng3: '向',
+  hoi1: '開',
+  hoi2: '海',
+  hoi6: '害',
+  hok6: '學',
+  hon3: '看漢',
+  hon4: '寒',
+  hon6: '汗',
+  hong1: '康',
+  hong4: '航',
+  hong6: '巷',
+  hot3: '喝渴',
+  hou2: '好',
+  hou4: '毫豪',
+  hou6: '號浩',
+  huk1: '哭',
+  hung1: '空胸兇',
+  hung2: '恐孔',
+  hung4: '紅熊雄洪',
+  hyun1: '圈',
+  hyut3: '血',
+  heoi1: '虛需',
+  heoi2: '許',
+  heoi3: '去',
+  jaa5: '也',
+  jaa6: '廿',
+  jam1: '音陰',
+  jam2: '飲',
+  jan1: '因恩',
+  jan3: '印',
+  jan4: '人仁',
+  jan5: '引忍',
+  jan6: '任',
+  jap6: '入',
+  jat1: '一壹',
+  jat6: '日',
+  jau1: '優憂休',
+  jau4: '由油遊游郵柔',
+  jau5: '有友',
+  jau6: '又右',
+  je4: '爺',
+  je5: '野嘢',
+  je6: '夜',
+  ji1: '衣醫依',
+  ji2: '椅',
+  ji3: '意',
+  ji4: '兒而移疑姨宜',
+  ji5: '耳以已',
+  ji6: '二義易異',
+  jik1: '億益',
+  jik6: '亦翼',
+  jim4: '鹽嚴',
+  jim5: '染',
+  jin4: '然言研',
+  jin5: '演',
+  jin6: '現',
+  jing1: '英應鷹嬰',
+  jing4: '營迎贏',
+  jing5: '影',
+  jing6: '認',
+  jip6: '葉業頁',
+  jit6: '熱',
+  jiu1: '腰邀',
+  jiu3: '要',
+  jiu4: '搖遙謠',
+  jiu6: '耀',
+  joeng4: '羊陽洋楊',
+  joeng5: '養',
+  joeng6: '樣讓',
+  juk6: '肉玉育欲',
+  jung4: '容熔溶融',
+  jung5: '勇',
+  jung6: '用',
+  jyu1: '於',
+  jyu4: '魚餘如',
+  jyu5: '雨語與宇羽',
+  jyu6: '遇預',
+  jyun4: '完元園原圓',
+  jyun5: '遠軟',
+  jyun6: '願院',
+  jyut6: '月越粵',
+  kaa1: '卡',
+  kam4: '琴禽',
+  kan4: '勤',
+  kap1: '吸給',
+  kau4: '求球',
+  kau5: '舅',
+  ke4: '騎',
+  kei4: '其旗奇期棋',
+  kei5: '企',
+  keoi5: '佢',
+  king4: '鯨',
+  kiu4: '橋喬',
+  kuk1: '曲',
+  kwan4: '裙群',
+  kyun4: '權',
+  kyut3: '缺',
+  laa1: '啦',
+  laai1: '拉',
+  laam4: '藍籃',
+  laan4: '蘭欄',
+  laang5: '冷',
+  laap6: '蠟',
+  laat6: '辣',
+  lai4: '黎',
+  lai5: '禮',
+  lai6: '例麗',
+  lam4: '林臨',
+  lan4: '鄰',
+  lap1: '粒',
+  lau4: '流留樓劉',
+  lau5: '柳',
+  lau6: '漏',
+  lei4: '離梨璃嚟',
+  lei5: '李理里履',
+  lei6: '利',
+  leng3: '靚',
+  leoi4: '雷',
+  leoi5: '裏裡旅',
+  leoi6: '類淚累',
+  leon4: '輪倫',
+  lik6: '力歷曆',
+  lin4: '連蓮憐',
+  lin6: '練煉',
+  ling4: '零鈴靈玲齡',
+  ling5: '領嶺',
+  ling6: '令另',
+  lip6: '獵',
+  lit6: '列烈',
+  liu4: '聊',
+  liu5: '了',
+  liu6: '料',
+  lo2: '攞',
+  lo4: '羅籮鑼',
+  loeng4: '涼糧良',
+  loeng5: '兩',
+  loeng6: '亮量輛',
+  loi4: '來',
+  lok6: '落樂',
+  long5: '朗',
+  lou4: '勞牢爐',
+  lou5: '老',
+  lou6: '路露',
+  luk6: '六陸綠鹿錄',
+  lung4: '龍籠聾',
+  lyun6: '亂',
+  m4: '唔',
+  maa1: '媽',
+  maa3: '嗎',
+  maa4: '麻',
+  maa5: '馬碼',
+  maa6: '罵',
+  maai4: '埋',
+  maai5: '買',
+  maai6: '賣',
+  maan5: '晚',
+  maan6: '萬慢',
+  maau1: '貓',
+  maau6: '貌',
+  mai5: '米',
+  man4: '文聞民蚊紋',
+  man5: '敏',
+  man6: '問',
+  mat1: '乜',
+  mat6: '物密蜜',
+  mau5: '某',
+  mau6: '貿茂',
+  me1: '咩',
+  mei4: '眉微',
+  mei5: '美尾',
+  mei6: '味未',
+  min4: '綿棉眠',
+  min5: '免',
+  min6: '面麵',
+  ming4: '明名鳴',
+  ming6: '命',
+  mo1: '摸麼',
+  mo4: '磨魔',
+  mok6: '莫漠',
+  mong4: '忙忘亡',
+  mong5: '網',
+  mong6: '望',
+  mou4: '毛無模',
+  mou5: '母冇舞',
+  mou6: '帽冒霧',
+  muk6: '木目牧',
+  mun4: '門們',
+  mun5: '滿',
+  mun6: '悶',
+  mui4: '梅媒',
+  mui5: '每',
+  mui6: '妹',
+  mung4: '蒙',
+  mung6: '夢',
+  naa4: '拿',
+  naa5: '哪那',
+  naai5: '奶',
+  naam4: '南男',
+  naan4: '難',
+  nang4: '能',
+  ne1: '呢',
+  nei4: '尼',
+  nei5: '你',
+  neoi5: '女',
+  nin4: '年',
+  ning4: '寧',
+  niu5: '鳥',
+  noi6: '內',
+  nou5: '腦努',
+  nou6: '怒',
+  nung4: '濃農',
+  nyun5: '暖',
+  ng4: '吳',
+  ng5: '五午',
+  ng6: '誤',
+  ngaa4: '牙芽',
+  ngaa5: '瓦雅',
+  ngaak6: '額',
+  ngaam4: '岩',
+  ngaan4: '顏',
+  ngaan5: '眼',
+  ngaang6: '硬',
+  ngai4: '危',
+  ngai6: '藝',
+  ngan4: '銀',
+  ngau4: '牛',
+  ngo5: '我',
+  ngo6: '餓',
+  ngoi6: '外礙',
+  o1: '柯',
+  oi3: '愛',
+  ok3: '惡',
+  on1: '安',
+  on3: '案按',
+  ou3: '澳',
+  paa3: '怕',
+  paai3: '派',
+  paai4: '排牌',
+  paak3: '拍',
+  paau2: '跑',
+  pang4: '朋',
+  pei4: '皮脾',
+  pin3: '片騙',
+  ping4: '平評瓶蘋萍',
+  piu3: '漂票',
+  po3: '破',
+  po4: '婆',
+  pou2: '普譜',
+  pou4: '葡',
+  pui3: '配佩',
+  pui4: '陪賠',
+  pui5: '倍',
+  pun4: '盤',
+  pung3: '碰',
+  saa1: '沙砂紗',
+  saai3: '曬',
+  saam1: '三衫',
+  saan1: '山',
+  saang1: '生甥',
+  saat3: '殺',
+  sai1: '西犀',
+  sai2: '洗使駛',
+  sai3: '世細',
+  sam1: '心深',
+  sam2: '審',
+  sam6: '甚什',
+  san1: '新身申',
+  san4: '神晨',
+  sap1: '濕',
+  sap6: '十拾',
+  sat1: '失室膝',
+  sat6: '實',
+  sau1: '收',
+  sau2: '手首守',
+  sau3: '瘦',
+  sau6: '受壽授售',
+  se1: '些',
+  se2: '寫',
+  se4: '蛇',
+  sei2: '死',
+  sei3: '四',
+  sek3: '錫',
+  sek6: '石',
+  seoi1: '雖',
+  seoi2: '水',
+  seoi3: '歲碎',
+  seoi4: '誰',
+  seoi6: '睡',
+  seon3: '信',
+  seon6: '順',
+  seot6: '術',
+  si1: '師詩思絲私獅',
+  si2: '史屎',
+  si3: '試',
+  si4: '時',
+  si5: '市',
+  si6: '是事士視示氏',
+  sik1: '色識息惜',
+  sik6: '食',
+  sin1: '先仙',
+  sin3: '線',
+  sing1: '星聲升',
+  sing2: '醒',
+  sing3: '聖姓性勝',
+  sing4: '成城誠',
+  sing6: '盛',
+  sip3: '攝',
+  siu1: '燒消',
+  siu2: '小少',
+  siu3: '笑',
+  so2: '所鎖',
+  soeng1: '雙傷商箱相',
+  soeng2: '想',
+  soeng4: '常',
+  soeng6: '上尚',
+  sok3: '索',
+  sou1: '蘇',
+  sou3: '數訴素',
+  suk1: '叔宿縮',
+  suk6: '熟屬',
+  sung1: '鬆',
+  sung3: '送宋',
+  syu1: '書輸舒',
+  syu2: '鼠暑',
+  syu6: '樹',
+  syun1: '酸',
+  syun3: '算蒜',
+  syun4: '船',
+  syut3: '說雪',
+  taa1: '他她它',
+  taai3: '太態泰',
+  taam3: '探',
+  taan1: '攤',
+  taap3: '塔',
+  tai2: '體睇',
+  tai3: '替',
+  tai4: '提題啼',
+  tau1: '偷',
+  tau3: '透',
+  tau4: '頭投',
+  tek3: '踢',
+  teng1: '聽廳',
+  teoi1: '推',
+  teoi3: '退',
+  tim1: '添',
+  tin1: '天',
+  tin4: '田甜',
+  ting4: '停庭亭',
+  tiu3: '跳',
+  tiu4: '條調',
+  to1: '拖',
+  tong4: '糖堂唐',
+  tou2: '土',
+  tou3: '兔',
+  tou4: '圖逃桃途陶萄',
+  tung1: '通',
+  tung3: '痛',
+  tung4: '同童銅',
+  tyun4: '團',
+  waa1: '蛙',
+  waa4: '華',
+  waa6: '話畫',
+  waai6: '壞',
+  waak6: '劃',
+  waan1: '灣彎',
+  waan2: '玩',
+  waan4: '還環',
+  wai4: '圍維',
+  wai5: '偉',
+  wai6: '位胃衛為',
+  wan1: '溫',
+  wan2: '搵',
+  wan4: '雲',
+  wan6: '運',
+  wing5: '永',
+  wing6: '泳',
+  wo4: '和禾',
+  wok6: '獲',
+  wong4: '黃王',
+  wong5: '往',
+  wu1: '烏',
+  wu4: '湖胡壺',
+  wu6: '護互',
+  wui4: '回',
+  wui5: '會',
+  wun2: '碗',
+  wun6: '換',
+  zaa1: '渣',
+  zaa3: '炸',
+  zaak3: '窄',
+  zaam6: '站',
+  zaap6: '雜習',
+  zaau2: '找',
+  zai2: '仔',
+  zai3: '制製際',
+  zak1: '則側',
+  zam1: '針',
+  zam2: '枕怎',
+  zan1: '真',
+  zan3: '震',
+  zan6: '陣',
+  zang1: '增爭',
+  zau1: '週周洲舟',
+  zau2: '走酒',
+  zau6: '就袖',
+  ze1: '遮',
+  ze2: '姐者',
+  ze3: '借',
+  ze5: '這',
+  ze6: '謝',
+  zek3: '隻',
+  zeng6: '淨',
+  zeoi3: '最醉',
+  zeoi6: '罪',
+  zeon1: '尊',
+  zeon2: '準',
+  zeon3: '進',
+  zi1: '之支知枝資姿',
+  zi2: '子紙指只止',
+  zi3: '至志誌',
+  zi6: '自字寺',
+  zik1: '織職',
+  zik6: '直',
+  zim1: '尖',
+  zin1: '煎',
+  zin2: '剪',
+  zin3: '戰箭',
+  zing1: '晶精睛蒸',
+  zing2: '整',
+  zing3: '正政證',
+  zing6: '靜',
+  zip3: '接',
+  zit3: '節',
+  ziu1: '朝招蕉',
+  ziu3: '照',
+  zo2: '左阻咗',
+  zo6: '座助',
+  zoek3: '雀',
+  zoek6: '著着',
+  zoeng1: '張章將',
+  zoeng2: '獎掌',
+  zoeng6: '象像',
+  zoi3: '再',
+  zoi6: '在',
+  zok3: '作昨',
+  zou2: '早祖',
+  zou6: '做造',
+  zuk1: '竹燭祝足',
+  zuk6: '族',
+  zung1: '中鐘終宗',
+  zung2: '總種',
+  zung3: '眾',
+  zung6: '重',
+  zyu1: '豬珠朱株',
+  zyu2: '主煮',
+  zyu3: '注',
+  zyu6: '住',
+  zyun1: '專磚',
+  zyun2: '轉',
+};
+
+// Words where a character is not read with its usual reading above
+export const JYUTPING_WORDS: Record<string, string> = {
+  銀行: 'ngan4 hong4',
+  旅行: 'leoi5 hang4',
+  流行: 'lau4 hang4',
+  進行: 'zeon3 hang4',
+  行為: 'hang4 wai4',
+  自行車: 'zi6 hang4 ce1',
+  長大: 'zoeng2 daai6',
+  校長: 'haau6 zoeng2',
+  家長: 'gaa1 zoeng2',
+  成長: 'sing4 zoeng2',
+  音樂: 'jam1 ngok6',
+  樂器: 'ngok6 hei3',
+  睡覺: 'seoi6 gaau3',
+  瞓覺: 'fan3 gaau3',
+  教書: 'gaau1 syu1',
+  愛好: 'oi3 hou3',
+  好奇: 'hou3 kei4',
+  成為: 'sing4 wai4',
+  以為: 'ji5 wai4',
+  認為: 'jing6 wai4',
+  部分: 'bou6 fan6',
+  著名: 'zyu3 ming4',
+  便宜: 'pin4 ji4',
+  調查: 'diu6 caa4',
+  少年: 'siu3 nin4',
+  重新: 'cung4 san1',
+  重複: 'cung4 fuk1',
+  重量: 'cung5 loeng6',
+  放假: 'fong3 gaa3',
+  假期: 'gaa3 kei4',
+  暑假: 'syu2 gaa3',
+  寒假: 'hon4 gaa3',
+  種樹: 'zung3 syu6',
+  種植: 'zung3 zik6',
+  答應: 'daap3 jing3',
+  醫生: 'ji1 sang1',
+  相處: 'soeng1 cyu5',
+  畫蛇添足: 'waak6 se4 tim1 zuk1',
+};
@@ -0,0 +1,771 @@
+// Mandarin readings for the same characters as the Jyutping table, with tone
+// numbers (5 = neutral tone). Marks and Zhuyin are derived from these.
+export const PINYIN_SYLLABLES: Record<string, string> = {
+  a1: '阿啊',
+  ai3: '矮',
+  ai4: '礙愛',
+  an1: '安',
+  an4: '案按',
+  ao4: '澳',
+  ba1: '巴疤芭八',
+  ba3: '把',
+  ba4: '爸霸壩罷',
+  ba5: '吧',
+  bai2: '白',
+  bai3: '擺百柏',
+  bai4: '拜敗',
+  ban1: '班斑頒般搬',
+  ban3: '板版',
+  ban4: '辦半伴',
+  bang1: '幫邦',
+  bang3: '綁榜',
+  bang4: '磅',
+  bao1: '包胞煲',
+  bao2: '薄',
+  bao3: '飽保寶堡',
+  bao4: '爆豹報',
+  bei1: '悲碑卑杯',
+  bei3: '北',
+  bei4: '備被背貝輩倍',
+  ben3: '本',
+  ben4: '笨',
+  bi1: '逼',
+  bi2: '鼻',
+  bi3: '筆比彼俾',
+  bi4: '閉幣弊畢臂碧壁',
+  bian1: '邊鞭編',
+  bian3: '扁',
+  bian4: '變遍便辨辯',
+  biao1: '標',
+  biao3: '錶表',
+  bie2: '別',
+  bin1: '彬賓濱',
+  bing1: '冰兵',
+  bing3: '餅',
+  bing4: '病並',
+  bo1: '波玻菠播',
+  bo2: '伯博駁',
+  bu3: '補',
+  bu4: '不布佈步部簿',
+  ca1: '擦',
+  cai2: '才財材裁',
+  cai3: '彩採',
+  cai4: '菜',
+  can1: '參餐',
+  can2: '蠶慚',
+  cang1: '倉蒼艙',
+  cang2: '藏',
+  cao1: '操',
+  cao3: '草',
+  ce4: '冊策廁側',
+  ceng2: '層曾',
+  cha1: '叉插',
+  cha2: '茶查察',
+  cha4: '差',
+  chai1: '拆',
+  chai2: '柴',
+  chan3: '產鏟',
+  chang1: '昌',
+  chang2: '長腸常',
+  chang3: '廠場',
+  chang4: '唱',
+  chao1: '抄鈔超',
+  chao2: '巢潮',
+  chao3: '炒吵',
+  che1: '車',
+  che3: '扯',
+  che4: '徹',
+  chen2: '沉陳塵晨',
+  chen4: '趁襯',
+  cheng1: '稱',
+  cheng2: '橙程成城誠',
+  chi1: '痴吃喫',
+  chi2: '池持遲匙',
+  chi3: '齒恥尺',
+  chi4: '斥赤',
+  chong1: '沖衝充',
+  chong2: '蟲',
+  chou1: '抽',
+  chou2: '愁仇籌',
+  chou3: '醜丑',
+  chou4: '臭',
+  chu1: '出初',
+  chu2: '除廚',
+  chu3: '楚礎',
+  chu4: '處',
+  chuan1: '穿川',
+  chuan2: '傳船',
+  chuang1: '窗瘡',
+  chuang2: '床',
+  chui1: '吹',
+  chui2: '錘',
+  chun1: '春',
+  ci2: '雌詞辭慈',
+  ci3: '此',
+  ci4: '次刺',
+  cong1: '聰蔥匆',
+  cong2: '從叢',
+  cu1: '粗',
+  cu4: '醋促',
+  cui1: '催',
+  cui4: '脆翠',
+  cun1: '村',
+  cun2: '存',
+  cuo1: '搓',
+  cuo4: '錯',
+  da1: '搭',
+  da2: '答達',
+  da3: '打',
+  da4: '大',
+  dai4: '帶戴代袋待',
+  dan1: '擔耽單丹',
+  dan3: '膽',
+  dan4: '淡誕但蛋彈',
+  dang1: '當噹',
+  dang3: '黨擋',
+  dao1: '刀',
+  dao3: '島倒導',
+  dao4: '到道盜',
+  de2: '得德',
+  de5: '的',
+  deng1: '燈登',
+  deng3: '等',
+  deng4: '凳',
+  di1: '低滴',
+  di2: '笛敵',
+  di3: '底抵',
+  di4: '帝蒂弟第地',
+  dian1: '顛',
+  dian3: '點典',
+  dian4: '店電殿',
+  diao1: '雕',
+  diao4: '釣吊掉',
+  die1: '爹',
+  ding1: '丁叮釘',
+  ding3: '頂',
+  ding4: '定',
+  diu1: '丟',
+  dong1: '東冬',
+  dong3: '懂董',
+  dong4: '凍棟動洞',
+  dou1: '都',
+  du1: '督',
+  du2: '讀獨毒',
+  du3: '賭',
+  du4: '度渡',
+  duan1: '端',
+  duan3: '短',
+  duan4: '鍛段斷',
+  dui1: '堆',
+  dui4: '對隊',
+  dun1: '敦噸',
+  dun4: '頓',
+  duo1: '多',
+  duo3: '朵躲',
+  e2: '額',
+  e4: '餓惡',
+  en1: '恩',
+  er2: '兒而',
+  er3: '耳',
+  er4: '二',
+  fa1: '發',
+  fa3: '法',
+  fa4: '髮',
+  fan1: '翻番帆',
+  fan2: '凡煩繁',
+  fan3: '反返',
+  fan4: '飯犯範',
+  fang1: '方芳',
+  fang2: '房防妨',
+  fang3: '訪紡',
+  fang4: '放',
+  fei1: '飛非啡菲',
+  fei2: '肥',
+  fei4: '費肺廢',
+  fen1: '分紛芬',
+  fen2: '墳',
+  fen3: '粉',
+  fen4: '份',
+  feng1: '風封峰蜂豐楓',
+  feng2: '逢馮縫',
+  fo2: '佛',
+  fou3: '否',
+  fu1: '夫膚',
+  fu2: '浮扶符福幅服伏',
+  fu3: '府斧',
+  fu4: '富副父婦負附復複',
+  gan1: '甘柑乾肝竿',
+  gan3: '感敢趕',
+  gan4: '幹',
+  gang1: '剛',
+  gang3: '崗港',
+  gao1: '高糕',
+  gao3: '搞稿',
+  gao4: '告',
+  ge1: '鴿哥歌',
+  ge2: '隔格閣',
+  ge4: '個各',
+  gei3: '給',
+  gen1: '跟根',
+  geng1: '耕',
+  geng4: '更',
+  gong1: '工公功弓攻宮',
+  gong4: '貢共',
+  gou1: '溝鈎勾',
+  gou3: '狗',
+  gou4: '夠',
+  gu1: '姑菇孤',
+  gu3: '古鼓股谷穀骨',
+  gu4: '故固顧',
+  gua1: '瓜',
+  gua4: '掛',
+  guai1: '乖',
+  guai3: '拐',
+  guai4: '怪',
+  guan1: '關',
+  guan3: '館管',
+  guan4: '罐慣',
+  guang1: '光',
+  guang3: '廣',
+  gui1: '歸規龜',
+  gui3: '鬼',
+  gui4: '貴桂櫃跪',
+  gun3: '滾',
+  gun4: '棍',
+  guo1: '鍋',
+  guo2: '國',
+  guo3: '果',
+  guo4: '過',
+  hai2: '孩還',
+  hai3: '海',
+  hai4: '害',
+  han2: '寒',
+  han4: '漢汗',
+  hang2: '航',
+  hao2: '毫豪',
+  hao3: '好',
+  hao4: '號浩',
+  he1: '喝',
+  he2: '河何荷和禾',
+  he4: '賀',
+  hei1: '黑',
+  hen3: '很',
+  heng2: '恆',
+  hong2: '紅洪',
+  hou4: '後候厚',
+  hu1: '忽',
+  hu2: '湖胡壺',
+  hu3: '虎',
+  hu4: '護互',
+  hua1: '花',
+  hua2: '華',
+  hua4: '化話畫劃',
+  huai4: '壞',
+  huan1: '歡',
+  huan2: '環',
+  huan4: '換',
+  huang2: '黃',
+  hui1: '灰恢',
+  hui2: '回',
+  hui4: '會',
+  hun1: '婚',
+  huo3: '火伙夥',
+  huo4: '貨獲',
+  ji1: '雞機基肌擊激',
+  ji2: '吉',
+  ji3: '幾己',
+  ji4: '計繼紀記寄技忌季際',
+  jia1: '家加傢嘉佳夾',
+  jia3: '假甲',
+  jia4: '價架嫁駕',
+  jian1: '監間艱尖煎',
+  jian3: '減簡揀剪',
+  jian4: '見建件健箭',
+  jiang1: '薑疆江將',
+  jiang3: '講獎',
+  jiang4: '降',
+  jiao1: '交郊膠嬌驕蕉',
+  jiao3: '攪腳角',
+  jiao4: '教較叫',
+  jie1: '街皆階接',
+  jie2: '結潔節',
+  jie3: '解姐',
+  jie4: '界介戒借',
+  jin1: '今金斤巾',
+  jin3: '錦緊謹',
+  jin4: '禁近進',
+  jing1: '驚京經鯨晶精睛',
+  jing3: '頸景警',
+  jing4: '鏡境敬竟淨靜',
+  jiu1: '究',
+  jiu3: '九久韭酒',
+  jiu4: '救舊舅就',
+  ju1: '居',
+  ju2: '菊',
+  ju3: '舉',
+  ju4: '句據鋸具巨拒懼距',
+  juan1: '捐',
+  juan4: '倦',
+  jue2: '覺',
+  jun1: '軍君均',
+  ka3: '卡',
+  kai1: '開',
+  kan4: '看',
+  kang1: '康',
+  kao3: '考',
+  ke1: '科棵柯',
+  ke3: '可渴',
+  ke4: '課客',
+  kong1: '空',
+  kong3: '恐孔',
+  kou3: '口',
+  ku1: '哭',
+  ku3: '苦',
+  ku4: '褲',
+  kuai4: '快塊筷',
+  kuan1: '寬',
+  la1: '啦拉',
+  la4: '蠟辣',
+  lai2: '來',
+  lan2: '藍籃蘭欄',
+  lang3: '朗',
+  lao2: '勞牢',
+  lao3: '老',
+  le4: '樂',
+  le5: '了',
+  lei2: '雷',
+  lei4: '類淚累',
+  leng3: '冷',
+  li2: '黎離梨璃',
+  li3: '禮李理里裏裡',
+  li4: '例麗粒利力歷曆',
+  lian2: '連蓮憐',
+  lian4: '練煉',
+  liang2: '涼糧良',
+  liang3: '兩',
+  liang4: '亮量輛',
+  liao2: '聊',
+  liao4: '料',
+  lie4: '獵列烈',
+  lin2: '林臨鄰',
+  ling2: '零鈴靈玲齡',
+  ling3: '領嶺',
+  ling4: '令另',
+  liu2: '流留劉',
+  liu3: '柳',
+  liu4: '六',
+  long2: '龍籠聾',
+  lou2: '樓',
+  lou4: '漏',
+  lu2: '爐',
+  lu4: '路露陸鹿錄',
+  luan4: '亂',
+  lun2: '輪倫',
+  luo2: '羅籮鑼',
+  luo4: '落',
+  lv3: '履旅',
+  lv4: '綠',
+  ma1: '媽',
+  ma2: '麻',
+  ma3: '馬碼',
+  ma4: '罵',
+  ma5: '嗎',
+  mai2: '埋',
+  mai3: '買',
+  mai4: '賣',
+  man3: '滿',
+  man4: '慢',
+  mang2: '忙',
+  mao1: '貓',
+  mao2: '毛',
+  mao4: '貌貿茂帽冒',
+  me5: '麼',
+  mei2: '眉梅媒',
+  mei3: '美每',
+  mei4: '妹',
+  men2: '門',
+  men4: '悶',
+  men5: '們',
+  meng2: '蒙',
+  meng4: '夢',
+  mi3: '米',
+  mi4: '秘密蜜',
+  mian2: '綿棉眠',
+  mian3: '免',
+  mian4: '面麵',
+  min2: '民',
+  min3: '敏',
+  ming2: '明名鳴',
+  ming4: '命',
+  mo1: '摸',
+  mo2: '磨魔模',
+  mo4: '莫漠',
+  mou3: '某',
+  mu3: '母',
+  mu4: '木目牧',
+  na2: '拿',
+  na3: '哪',
+  na4: '那',
+  nai3: '奶',
+  nan2: '南男難',
+  nao3: '腦',
+  ne5: '呢',
+  nei4: '內',
+  neng2: '能',
+  ni2: '尼',
+  ni3: '你',
+  nian2: '年',
+  nian4: '廿',
+  niao3: '鳥',
+  ning2: '寧',
+  niu2: '牛',
+  nong2: '濃農',
+  nu3: '努',
+  nu4: '怒',
+  nuan3: '暖',
+  nv3: '女',
+  ou1: '歐',
+  ou3: '嘔',
+  pa4: '怕',
+  pai1: '拍',
+  pai2: '排牌',
+  pai4: '派',
+  pan2: '盤',
+  pao3: '跑',
+  pei2: '陪賠',
+  pei4: '配佩',
+  peng2: '朋',
+  peng4: '碰',
+  pi2: '皮脾',
+  pian4: '片騙',
+  piao4: '漂票',
+  pin3: '品',
+  ping2: '平評瓶蘋萍',
+  po1: '坡',
+  po2: '婆',
+  po4: '迫破',
+  pu2: '葡',
+  pu3: '普譜',
+  qi1: '妻淒七漆戚期',
+  qi2: '齊騎其旗奇棋',
+  qi3: '起企',
+  qi4: '砌氣器',
+  qian1: '簽籤千遷',
+  qian2: '前錢',
+  qian3: '淺',
+  qiang1: '槍',
+  qiang2: '牆',
+  qiang3: '搶',
+  qiao2: '橋喬',
+  qie1: '切',
+  qie3: '且',
+  qin1: '親',
+  qin2: '琴禽勤',
+  qing1: '清青蜻輕',
+  qing2: '情晴',
+  qing3: '請',
+  qing4: '慶',
+  qiu1: '秋',
+  qiu2: '求球',
+  qu1: '趨',
+  qu3: '取娶曲',
+  qu4: '趣去',
+  quan1: '圈',
+  quan2: '全泉拳權',
+  que1: '缺',
+  que4: '雀',
+  qun2: '裙群',
+  ran2: '然',
+  ran3: '染',
+  rang4: '讓',
+  re4: '熱',
+  ren2: '人仁',
+  ren3: '忍',
+  ren4: '任認',
+  ri4: '日',
+  rong2: '容熔溶融',
+  rou2: '柔',
+  rou4: '肉',
+  ru2: '如',
+  ru4: '入',
+  ruan3: '軟',
+  san1: '三',
+  se4: '色',
+  sha1: '沙砂紗殺',
+  shai4: '曬',
+  shan1: '衫山',
+  shang1: '傷商',
+  shang4: '上尚',
+  shao1: '燒',
+  shao3: '少',
+  she2: '蛇',
+  she4: '設攝',
+  shen1: '深身申',
+  shen2: '什神',
+  shen3: '審',
+  shen4: '甚',
+  sheng1: '生甥聲升',
+  sheng4: '聖勝盛',
+  shi1: '濕失師詩獅',
+  shi2: '十拾實石時識食',
+  shi3: '始使駛史屎',
+  shi4: '世室試市是事士視示氏',
+  shou1: '收',
+  shou3: '手首守',
+  shou4: '瘦受壽授售',
+  shu1: '叔書輸舒',
+  shu2: '熟',
+  shu3: '屬鼠暑',
+  shu4: '束術數樹',
+  shua1: '刷',
+  shuang1: '雙',
+  shui2: '誰',
+  shui3: '水',
+  shui4: '睡',
+  shun4: '順',
+  shuo1: '說',
+  si1: '思絲私',
+  si3: '死',
+  si4: '四寺',
+  song1: '鬆',
+  song4: '送宋',
+  su1: '蘇',
+  su4: '訴素宿',
+  suan1: '酸',
+  suan4: '算蒜',
+  sui1: '雖',
+  sui2: '隨',
+  sui4: '歲碎',
+  suo1: '縮',
+  suo3: '所鎖索',
+  ta1: '他她它',
+  ta3: '塔',
+  tai4: '太態泰',
+  tan1: '攤',
+  tan4: '探',
+  tang2: '糖堂唐',
+  tao2: '逃桃陶萄',
+  ti1: '踢',
+  ti2: '提題啼',
+  ti3: '體',
+  ti4: '替',
+  tian1: '添天',
+  tian2: '田甜',
+  tiao2: '條調',
+  tiao4: '跳',
+  ting1: '聽廳',
+  ting2: '停庭亭',
+  tong1: '通',
+  tong2: '同童銅',
+  tong4: '痛',
+  tou1: '偷',
+  tou2: '頭投',
+  tou4: '透',
+  tu2: '圖途',
+  tu3: '土',
+  tu4: '兔',
+  tuan2: '團',
+  tui1: '推',
+  tui4: '退',
+  tuo1: '拖',
+  wa1: '蛙',
+  wa3: '瓦',
+  wai4: '外',
+  wan1: '灣彎',
+  wan2: '完玩',
+  wan3: '晚碗',
+  wan4: '萬',
+  wang2: '亡王',
+  wang3: '網往',
+  wang4: '忘望',
+  wei1: '微危',
+  wei2: '圍維',
+  wei3: '尾偉',
+  wei4: '味未位胃衛為',
+  wen1: '溫',
+  wen2: '文聞蚊紋',
+  wen4: '問',
+  wo3: '我',
+  wo4: '握',
+  wu1: '烏',
+  wu2: '無吳',
+  wu3: '舞五午',
+  wu4: '物霧誤',
+  xi1: '希稀吸西犀膝錫息惜',
+  xi2: '習',
+  xi3: '喜洗',
+  xi4: '係戲細',
+  xia1: '蝦',
+  xia4: '下夏嚇',
+  xian1: '先仙',
+  xian2: '鹹閒',
+  xian3: '險顯',
+  xian4: '現線',
+  xiang1: '香鄉箱相',
+  xiang2: '祥詳',
+  xiang3: '響想',
+  xiang4: '向巷象像',
+  xiao1: '消',
+  xiao3: '小',
+  xiao4: '校笑',
+  xie1: '些',
+  xie2: '鞋協',
+  xie3: '寫',
+  xie4: '謝',
+  xin1: '心新',
+  xin4: '信',
+  xing1: '星',
+  xing2: '行',
+  xing3: '醒',
+  xing4: '興姓性',
+  xiong1: '兄胸兇',
+  xiong2: '熊雄',
+  xiu1: '休',
+  xiu4: '袖',
+  xu1: '虛需',
+  xu2: '徐',
+  xu3: '許',
+  xue2: '學',
+  xue3: '雪',
+  xue4: '血',
+  xun2: '尋巡循',
+  xun4: '訓',
+  ya1: '呀鴨',
+  ya2: '牙芽',
+  ya3: '雅',
+  ya4: '亞',
+  yan2: '鹽嚴言研岩顏',
+  yan3: '演眼',
+  yan4: '晏',
+  yang2: '羊陽洋楊',
+  yang3: '養',
+  yang4: '樣',
+  yao1: '腰邀',
+  yao2: '搖遙謠',
+  yao4: '要耀',
+  ye2: '爺',
+  ye3: '也野',
+  ye4: '夜葉業頁',
+  yi1: '一壹衣醫依',
+  yi2: '移疑姨宜',
+  yi3: '椅以已',
+  yi4: '意義易異億益亦翼藝',
+  yin1: '音陰因',
+  yin2: '銀',
+  yin3: '飲引',
+  yin4: '印',
+  ying1: '英應鷹嬰',
+  ying2: '營迎贏',
+  ying3: '影',
+  ying4: '硬',
+  yong3: '勇永泳',
+  yong4: '用',
+  you1: '優憂',
+  you2: '由油遊游郵',
+  you3: '有友',
+  you4: '又右',
+  yu2: '於魚餘',
+  yu3: '雨語與宇羽',
+  yu4: '玉育欲遇預',
+  yuan2: '元園原圓',
+  yuan3: '遠',
+  yuan4: '願院',
+  yue4: '月越粵',
+  yun2: '雲',
+  yun4: '運',
+  za2: '雜',
+  zai3: '仔',
+  zai4: '再在',
+  zao3: '早',
+  zao4: '造',
+  ze2: '則',
+  zen3: '怎',
+  zeng1: '增',
+  zha1: '渣',
+  zha4: '炸',
+  zhai3: '窄',
+  zhan4: '站戰',
+  zhang1: '張章',
+  zhang3: '掌',
+  zhao1: '朝招',
+  zhao3: '找',
+  zhao4: '照',
+  zhe1: '遮',
+  zhe3: '者',
+  zhe4: '這',
+  zhe5: '著着',
+  zhen1: '針真',
+  zhen3: '枕',
+  zhen4: '震陣',
+  zheng1: '爭蒸',
+  zheng3: '整',
+  zheng4: '正政證',
+  zhi1: '隻之支知枝織',
+  zhi2: '職直',
+  zhi3: '紙指只止',
+  zhi4: '制製至志誌',
+  zhong1: '中鐘終',
+  zhong3: '種',
+  zhong4: '眾重',
+  zhou1: '週周洲舟',
+  zhu1: '豬珠朱株',
+  zhu2: '竹燭',
+  zhu3: '主煮',
+  zhu4: '柱助祝注住',
+  zhuan1: '專磚',
+  zhuan3: '轉',
+  zhun3: '準',
+  zhuo1: '桌',
+  zi1: '資姿',
+  zi3: '子',
+  zi4: '自字',
+  zong1: '宗',
+  zong3: '總',
+  zou3: '走',
+  zu2: '足族',
+  zu3: '阻祖',
+  zui4: '最醉罪',
+  zun1: '尊',
+  zuo2: '昨',
+  zuo3: '左',
+  zuo4: '坐座作做',
+};
+
+// Words where a character is not read with its usual reading above
+export const PINYIN_WORDS: Record<string, string> = {
+  銀行: 'yin2 hang2',
+  行為: 'xing2 wei2',
+  長大: 'zhang3 da4',
+  校長: 'xiao4 zhang3',
+  家長: 'jia1 zhang3',
+  成長: 'cheng2 zhang3',
+  音樂: 'yin1 yue4',
+  樂器: 'yue4 qi4',
+  睡覺: 'shui4 jiao4',
+  教書: 'jiao1 shu1',
+  愛好: 'ai4 hao4',
+  好奇: 'hao4 qi2',
+  成為: 'cheng2 wei2',
+  以為: 'yi3 wei2',
+  認為: 'ren4 wei2',
+  著名: 'zhu4 ming2',
+  便宜: 'pian2 yi2',
+  調查: 'diao4 cha2',
+  少年: 'shao4 nian2',
+  重新: 'chong2 xin1',
+  重複: 'chong2 fu4',
+  放假: 'fang4 jia4',
+  假期: 'jia4 qi1',
+  暑假: 'shu3 jia4',
+  寒假: 'han2 jia4',
+  種樹: 'zhong4 shu4',
+  種植: 'zhong4 zhi2',
+  答應: 'da1 ying4',
+  出差: 'chu1 chai1',
+  覺得: 'jue2 de5',
+  了解: 'liao3 jie3',
+  還書: 'huan2 shu1',
+  相片: 'xiang4 pian4',
+  照相: 'zhao4 xiang4',
+  畫蛇添足: 'hua4 she2 tian1 zu2',
+};
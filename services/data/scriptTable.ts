@@ -0,0 +1,88 @@
+// Traditional/Simplified pairs ("繁简") for the characters used in the bundled
+// reading tables plus other common primary school characters. When several
+// Traditional characters share one Simplified form, the first pair listed is
+// the default for Simplified → Traditional.
+export const TRADITIONAL_SIMPLIFIED_PAIRS: string[] = [
+  '亞亚 鴨鸭 歐欧 嘔呕 壩坝 罷罢 擺摆 敗败 頒颁 辦办 飽饱 閉闭 幣币 賓宾 濱滨 筆笔',
+  '畢毕 備备 餅饼 邊边 編编 變变 辯辩 並并 別别 標标 錶表 駁驳 幫帮 綁绑 補补 報报',
+  '佈布 貝贝 輩辈 冊册 參参 蠶蚕 慚惭 產产 鏟铲 鈔钞 齊齐 尋寻 親亲 襯衬 陳陈 塵尘',
+  '層层 醜丑 籌筹 車车 請请 趨趋 錘锤 詞词 辭辞 遲迟 恥耻 齒齿 廁厕 簽签 籤签 遷迁',
+  '淺浅 錢钱 稱称 設设 徹彻 礎础 錯错 槍枪 搶抢 廠厂 長长 場场 牆墙 腸肠 詳详 採采',
+  '財财 倉仓 蒼苍 瘡疮 艙舱 衝冲 聰聪 蔥葱 蟲虫 從从 叢丛 處处 廚厨 傳传 帶带 擔担',
+  '膽胆 單单 誕诞 彈弹 達达 燈灯 對对 隊队 噸吨 頓顿 敵敌 點点 電电 顛颠 釘钉 頂顶',
+  '丟丢 釣钓 黨党 擋挡 島岛 賭赌 盜盗 導导 讀读 獨独 東东 凍冻 棟栋 動动 斷断 鍛锻',
+  '塊块 煩烦 飯饭 範范 發发 髮发 費费 廢废 紛纷 訓训 墳坟 飛飞 夥伙 課课 貨货 訪访',
+  '紡纺 膚肤 婦妇 負负 復复 複复 歡欢 寬宽 風风 豐丰 楓枫 馮冯 縫缝 價价 駕驾 階阶',
+  '艱艰 監监 減减 間间 簡简 揀拣 膠胶 攪搅 較较 雞鸡 計计 繼继 錦锦 緊紧 謹谨 鴿鸽',
+  '溝沟 鈎钩 夠够 舊旧 機机 幾几 紀纪 記记 驚惊 頸颈 鏡镜 舉举 據据 鋸锯 懼惧 擊击',
+  '見见 經经 結结 潔洁 嬌娇 驕骄 個个 腳脚 薑姜 閣阁 乾干 幹干 趕赶 崗岗 剛刚 講讲',
+  '顧顾 穀谷 館馆 貢贡 掛挂 關关 慣惯 歸归 規规 龜龟 貴贵 櫃柜 軍军 滾滚 鍋锅 過过',
+  '國国 廣广 蝦虾 嚇吓 鹹咸 閒闲 係系 繫系 恆恒 後后 氣气 戲戏 險险 顯显 輕轻 興兴',
+  '慶庆 協协 賀贺 鄉乡 響响 開开 漢汉 號号 兇凶 紅红 虛虚 許许 陰阴 飲饮 優优 憂忧',
+  '遊游 郵邮 爺爷 醫医 義义 異异 億亿 鹽盐 嚴严 現现 應应 鷹鹰 嬰婴 營营 贏赢 認认',
+  '葉叶 業业 頁页 熱热 謠谣 陽阳 楊杨 養养 樣样 讓让 於于 魚鱼 餘余 語语 與与 預预',
+  '園园 圓圆 遠远 軟软 願愿 粵粤 給给 騎骑 鯨鲸 橋桥 喬乔 權权 藍蓝 籃篮 蘭兰 欄栏',
+  '蠟蜡 禮礼 麗丽 鄰邻 樓楼 劉刘 離离 裏里 裡里 類类 淚泪 輪轮 倫伦 歷历 曆历 連连',
+  '蓮莲 憐怜 練练 煉炼 鈴铃 靈灵 齡龄 領领 嶺岭 獵猎 羅罗 籮箩 鑼锣 涼凉 糧粮 兩两',
+  '輛辆 來来 樂乐 勞劳 爐炉 陸陆 綠绿 錄录 龍龙 籠笼 聾聋 亂乱 媽妈 嗎吗 馬马 碼码',
+  '罵骂 買买 賣卖 萬万 貓猫 貿贸 紋纹 聞闻 問问 綿绵 麵面 鳴鸣 麼么 網网 無无 夢梦',
+  '門门 們们 滿满 悶闷 難难 寧宁 鳥鸟 內内 腦脑 濃浓 農农 誤误 額额 顏颜 藝艺 銀银',
+  '餓饿 礙碍 惡恶 騙骗 評评 蘋苹 譜谱 賠赔 盤盘 紗纱 曬晒 殺杀 審审 濕湿 實实 壽寿',
+  '寫写 錫锡 雖虽 歲岁 誰谁 順顺 術术 師师 詩诗 絲丝 獅狮 時时 試试 視视 識识 線线',
+  '聲声 聖圣 勝胜 誠诚 攝摄 燒烧 鎖锁 雙双 傷伤 蘇苏 數数 訴诉 屬属 鬆松 輸输 書书',
+  '樹树 說说 態态 攤摊 體体 題题 頭头 聽听 廳厅 條条 調调 圖图 銅铜 團团 華华 話话',
+  '畫画 壞坏 劃划 灣湾 彎弯 還还 環环 圍围 維维 偉伟 衛卫 為为 溫温 雲云 運运 獲获',
+  '穫获 黃黄 烏乌 壺壶 護护 會会 換换 雜杂 習习 製制 際际 則则 側侧 針针 陣阵 爭争',
+  '週周 這这 謝谢 隻只 淨净 準准 進进 紙纸 誌志 織织 職职 戰战 證证 靜静 節节 張张',
+  '將将 獎奖 專专 磚砖 轉转 豬猪 種种 眾众 鐘钟 鍾钟 終终 總总 燭烛 愛爱 學学 覺觉',
+  '該该 臉脸 藥药 細细 級级 約约 組组 統统 續续 論论 議议 闊阔 鐵铁 飄飘 寶宝 麥麦',
+  '壓压 鬧闹 緣缘 猶犹 勵励 啟启 劇剧 嘆叹 歎叹 戶户 羨羡 嗚呜 憶忆 懷怀 儀仪 俠侠',
+  '傘伞 傑杰 僅仅 債债 倆俩 儲储 兒儿 勢势 區区 卻却 厲厉 厭厌 吳吴 員员 啞哑 喚唤',
+  '喪丧 壯壮 奪夺 奮奋 孫孙 當当 徵征 悅悦 擠挤 擴扩 晝昼 暫暂 極极 檢检 獻献 療疗',
+  '睜睁 穩稳 窮穷 競竞 築筑 絕绝 績绩 繩绳 繪绘 聯联 蓋盖 裝装 襪袜 觀观 訂订 診诊',
+  '誇夸 談谈 諒谅 譯译 讚赞 貧贫 責责 資资 賞赏 賽赛 跡迹 踐践 蹤踪 躍跃 載载 違违',
+  '遙遥 遞递 適适 選选 遺遗 釋释 鉛铅 鋪铺 鋼钢 鍵键 閃闪 閱阅 隨随 隱隐 霧雾 韓韩',
+  '項项 須须 鬚须 頑顽 驗验 鬥斗 鮮鲜 鵝鹅 髒脏 臟脏 盡尽 儘尽 捲卷 藉借 噹当 瞭了',
+  '慾欲 颱台 臺台 沖冲 著着 沒没 務务 殼壳 螞蚂 蟻蚁 湯汤 醬酱 褲裤 餃饺 嚨咙 貼贴',
+  '廟庙 燦灿 爛烂 揚扬 絡络 漸渐 滅灭 潛潜 澤泽 濟济 濤涛 灑洒 煙烟 爾尔 牽牵 狀状',
+  '獸兽 畝亩 瘋疯 癢痒 確确 禍祸 稅税 積积 窩窝 竊窃 筍笋 簾帘 糾纠 紐纽 純纯 緒绪',
+  '緩缓 縣县 縮缩 纖纤 罰罚 翹翘 聳耸 肅肃 脫脱 腫肿 臨临 艦舰 蘆芦 蘿萝 虧亏 蟬蝉',
+  '蠅蝇 覽览 觸触 訊讯 詢询 誦诵 謎谜 豎竖 貸贷 賊贼 賴赖 購购 賺赚 趙赵 踴踊 軌轨',
+  '輔辅 輝辉 轎轿 鄭郑 鑽钻 閘闸 闖闯 韻韵 頗颇 頻频 顆颗 飢饥 餡馅 饞馋 駛驶 騰腾',
+  '驢驴 魷鱿 鯉鲤 鯊鲨 鱷鳄 鴉鸦 鵲鹊 鶴鹤 龐庞',
+];
+
+// Simplified characters that are usually left as they are, or map to a
+// Traditional form other than the first pair above
+export const SIMPLIFIED_DEFAULTS: Record<string, string> = {
+  面: '面', 只: '只', 台: '台', 系: '系', 松: '松', 谷: '谷', 卷: '卷', 制: '制', 征: '征', 表: '表',
+  借: '借', 志: '志', 周: '周', 伙: '伙', 姜: '姜', 游: '游', 凶: '凶', 了: '了', 欲: '欲', 着: '着',
+  冲: '沖',
+};
+
+// Words that decide the Traditional form of an ambiguous Simplified character
+export const SIMPLIFIED_WORDS: Record<string, string> = {
+  头发: '頭髮', 理发: '理髮', 发型: '髮型',
+  干部: '幹部', 能干: '能幹', 干活: '幹活', 干什么: '幹什麼', 干吗: '幹嗎', 树干: '樹幹',
+  皇后: '皇后', 公里: '公里',
+  面条: '麵條', 面包: '麵包', 方便面: '方便麵',
+  一只: '一隻', 两只: '兩隻', 三只: '三隻', 几只: '幾隻', 这只: '這隻', 那只: '那隻',
+  台风: '颱風', 关系: '關係', 联系: '聯繫', 没关系: '沒關係',
+  复习: '複習', 重复: '重複', 复杂: '複雜', 日历: '日曆', 收获: '收穫',
+  放松: '放鬆', 轻松: '輕鬆', 冲突: '衝突', 冲出: '衝出', 冲向: '衝向', 冲过: '衝過',
+  胡须: '鬍鬚', 心脏: '心臟', 内脏: '內臟', 尽管: '儘管', 尽量: '儘量', 稻谷: '稻穀',
+  北斗: '北斗', 漏斗: '漏斗', 小丑: '小丑', 卷起: '捲起',
+  制造: '製造', 制作: '製作', 特征: '特徵', 象征: '象徵',
+  手表: '手錶', 钟表: '鐘錶', 借口: '藉口', 杂志: '雜誌', 标签: '標籤',
+  周末: '週末', 一周: '一週', 伙伴: '夥伴', 生姜: '生薑', 旅游: '旅遊', 游戏: '遊戲',
+  茶几: '茶几', 欲望: '慾望',
+};
+
+// Traditional words that keep 著 in both scripts (elsewhere it is the particle 着)
+export const ZHU_WORDS: string[] = ['著名', '著作', '顯著', '土著', '著者'];
+
+// Forms taught in Hong Kong schools (常用字字形表) where other Traditional sources differ
+export const HK_VARIANTS: Record<string, string> = {
+  裡: '裏',
+  著: '着',
+};
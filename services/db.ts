@@ -0,0 +1,144 @@
+// Thin promise wrapper around the app's IndexedDB database.
+// Every persistent store is declared here so upgrades happen in one place.
+
+import { ChildProfile, ReviewCard, SavedList } from "../types";
+
+const DB_NAME = 'dictation-helper';
+const DB_VERSION = 6;
+
+export type StoreName = 'lists' | 'reviews' | 'audio' | 'recordings' | 'profiles' | 'sessions';
+
+// Owner of everything saved before profiles existed
+export const LEGACY_PROFILE_ID = 'default';
+
+// Moves lists and review cards from before version 5 into a profile of their own.
+// Runs inside the upgrade transaction; review keys gain the profile id.
+const migrateToProfiles = (tx: IDBTransaction) => {
+  const legacyProfile: ChildProfile = {
+    id: LEGACY_PROFILE_ID,
+    name: '小朋友',
+    grade: '',
+    avatar: '🐣',
+    audioLanguage: 'cantonese',
+    mode: 'vocab',
+    difficulty: 'medium',
+    createdAt: Date.now(),
+  };
+  tx.objectStore('profiles').put(legacyProfile);
+
+  const lists = tx.objectStore('lists');
+  const oldLists: IDBRequest<Omit<SavedList, 'profileId'>[]> = lists.getAll();
+  oldLists.onsuccess = () => {
+    oldLists.result.forEach(list => {
+      const migrated: SavedList = { ...list, profileId: LEGACY_PROFILE_ID };
+      lists.put(migrated);
+    });
+  };
+
+  const reviews = tx.objectStore('reviews');
+  const oldCards: IDBRequest<Omit<ReviewCard, 'profileId'>[]> = reviews.getAll();
+  oldCards.onsuccess = () => {
+    oldCards.result.forEach(card => {
+      const migrated: ReviewCard = { ...card, key: `${LEGACY_PROFILE_ID}:${card.key}`, profileId: LEGACY_PROFILE_ID };
+      reviews.delete(card.key);
+      reviews.put(migrated);
+    });
+  };
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const oldVersion = event.oldVersion;
+
+        if (oldVersion < 1) {
+          const lists = db.createObjectStore('lists', { keyPath: 'id' });
+          lists.createIndex('createdAt', 'createdAt');
+        }
+        if (oldVersion < 2) {
+          const reviews = db.createObjectStore('reviews', { keyPath: 'key' });
+          reviews.createIndex('dueAt', 'dueAt');
+        }
+        if (oldVersion < 3) {
+          const audio = db.createObjectStore('audio', { keyPath: 'key' });
+          audio.createIndex('usedAt', 'usedAt');
+        }
+        if (oldVersion < 4) {
+          db.createObjectStore('recordings', { keyPath: 'key' });
+        }
+        if (oldVersion < 5) {
+          const tx = request.transaction!;
+          db.createObjectStore('profiles', { keyPath: 'id' });
+          const sessions = db.createObjectStore('sessions', { keyPath: 'id' });
+          sessions.createIndex('profileId', 'profileId');
+          tx.objectStore('lists').createIndex('profileId', 'profileId');
+          tx.objectStore('reviews').createIndex('profileId', 'profileId');
+          if (oldVersion > 0) migrateToProfiles(tx);
+        }
+        if (oldVersion < 6 && oldVersion >= 3) {
+          // Speech cached before the language was passed to Gemini may be Mandarin under a Cantonese key
+          request.transaction!.objectStore('audio').clear();
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs a single request against one store and resolves once the transaction completes.
+ */
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  const result = requestToPromise(run(tx.objectStore(storeName)));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+};
+
+/**
+ * Runs requests against several stores in one transaction, so they all
+ * succeed or none do. Resolves once the transaction completes.
+ */
+export const withTransaction = async (
+  storeNames: StoreName[],
+  mode: IDBTransactionMode,
+  run: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeNames, mode);
+  run(tx);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
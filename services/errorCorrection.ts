@@ -0,0 +1,93 @@
+import { ConfusableKind, CorrectionQuestion, DictationItem, DictationMode, PlantedError } from "../types";
+import { SHAPE_GROUPS, SOUND_GROUPS } from "./data/confusables";
+import { isHan } from "./romanization";
+
+interface Confusable {
+  char: string;
+  kind: ConfusableKind;
+}
+
+const CONFUSABLES = new Map<string, Confusable[]>();
+const addGroups = (groups: string[], kind: ConfusableKind) =>
+  groups.forEach(group => {
+    const chars = Array.from(group);
+    chars.forEach(char => {
+      const list = CONFUSABLES.get(char) || [];
+      chars.forEach(other => {
+        if (other !== char && !list.some(c => c.char === other)) list.push({ char: other, kind });
+      });
+      CONFUSABLES.set(char, list);
+    });
+  });
+addGroups(SHAPE_GROUPS, 'shape');
+addGroups(SOUND_GROUPS, 'sound');
+
+// FNV-1a, so the same sentence always gets the same errors
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded generator (mulberry32) returning numbers in [0, 1)
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// The text of an item that reads as a sentence
+const correctionSource = (item: DictationItem, mode: DictationMode): string => {
+  if (mode === 'vocab') return item.example || item.content;
+  if (mode === 'character') return item.cueWord || item.commonWords?.[0] || item.content;
+  return item.content;
+};
+
+// One error in short texts, then one per ten characters, at most three
+const errorCount = (hanCount: number) => (hanCount < 10 ? 1 : Math.min(3, Math.floor(hanCount / 10)));
+
+/**
+ * Swaps a few characters of the sentence for look-alike or sound-alike
+ * ones from the bundled table. Never swaps two neighbouring characters, so
+ * each error can be found on its own. Returns null when nothing can be swapped.
+ */
+export const plantErrors = (sentence: string, itemId: string): CorrectionQuestion | null => {
+  const chars = Array.from(sentence);
+  const positions: number[] = [];
+  let hanSeen = 0;
+  chars.forEach(char => positions.push(isHan(char) ? ++hanSeen : 0));
+
+  const random = seededRandom(hashString(sentence));
+  const candidates = chars
+    .map((_, index) => index)
+    .filter(index => CONFUSABLES.has(chars[index]))
+    .sort((a, b) => hashString(`${sentence}#${a}`) - hashString(`${sentence}#${b}`));
+
+  const errors: PlantedError[] = [];
+  const target = errorCount(hanSeen);
+  for (const index of candidates) {
+    if (errors.length >= target) break;
+    if (errors.some(e => Math.abs(e.index - index) < 2)) continue;
+    const options = CONFUSABLES.get(chars[index])!;
+    const swap = options[Math.floor(random() * options.length)];
+    errors.push({ index, position: positions[index], wrong: swap.char, correct: chars[index], kind: swap.kind });
+  }
+  if (errors.length === 0) return null;
+
+  errors.sort((a, b) => a.index - b.index);
+  errors.forEach(e => { chars[e.index] = e.wrong; });
+  return { itemId, sentence: chars.join(''), errors };
+};
+
+/**
+ * Builds a 改錯字 question for every item that has a swappable character.
+ * The result depends only on the items, so reprinting gives the same paper.
+ */
+export const buildCorrectionQuestions = (items: DictationItem[], mode: DictationMode): CorrectionQuestion[] =>
+  items
+    .map(item => plantErrors(correctionSource(item, mode), item.id))
+    .filter((question): question is CorrectionQuestion => question !== null);
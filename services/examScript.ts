@@ -0,0 +1,235 @@
+import { DictationItem, DictationMode, ExamSettings } from "../types";
+import { characterCue } from "./characterUtils";
+import { isHan } from "./romanization";
+
+// Builds and plays the fixed script of a school dictation: the question
+// number, each item read a few times, and a pause to write after it.
+
+export const DEFAULT_EXAM_SETTINGS: ExamSettings = {
+  repeats: 2,
+  secondsPerChar: 1.5,
+  readPunctuation: true,
+};
+
+export type ExamStep =
+  | { kind: 'speak'; text: string; slow: boolean; itemIndex: number }
+  | { kind: 'pause'; ms: number; writing: boolean; itemIndex: number }; // itemIndex -1 for the opening and closing lines
+
+type Language = 'mandarin' | 'cantonese';
+
+const ANNOUNCEMENTS: Record<Language, { start: string; end: string; openQuote: string; closeQuote: string }> = {
+  cantonese: { start: '而家開始默書', end: '默書完畢', openQuote: '開引號', closeQuote: '閂引號' },
+  mandarin: { start: '現在開始默書', end: '默書結束', openQuote: '上引號', closeQuote: '下引號' },
+};
+
+const PUNCTUATION_NAMES: Record<string, string> = {
+  '，': '逗號', ',': '逗號', '。': '句號', '？': '問號', '?': '問號', '！': '感嘆號', '!': '感嘆號',
+  '、': '頓號', '；': '分號', ';': '分號', '：': '冒號', ':': '冒號', '…': '省略號',
+};
+
+// A phrase ends at these marks; quotes and 頓號 are read inside the phrase
+const PHRASE_END = /[，,。？?！!；;：:…]/;
+
+const DIGITS = '零一二三四五六七八九';
+
+/**
+ * Writes a number from 1 to 999 in Chinese, as it is read out: 第十二題.
+ */
+export const toChineseNumber = (n: number): string => {
+  if (n < 10) return DIGITS[n];
+  if (n < 20) return '十' + (n % 10 ? DIGITS[n % 10] : '');
+  if (n < 100) return DIGITS[Math.floor(n / 10)] + '十' + (n % 10 ? DIGITS[n % 10] : '');
+  const rest = n % 100;
+  return DIGITS[Math.floor(n / 100)] + '百' + (rest === 0 ? '' : rest < 10 ? '零' + DIGITS[rest] : rest < 20 ? '一' + toChineseNumber(rest) : toChineseNumber(rest));
+};
+
+interface Phrase {
+  text: string; // What is read aloud, with punctuation names when enabled
+  length: number; // Chinese characters the child has to write
+}
+
+/**
+ * Splits a sentence into the phrases a teacher reads one at a time,
+ * naming each punctuation mark where it falls.
+ */
+export const splitPhrases = (sentence: string, language: Language, readPunctuation: boolean): Phrase[] => {
+  const phrases: Phrase[] = [];
+  let text = '';
+  let length = 0;
+  const name = (word: string) => (readPunctuation ? `，${word}，` : '');
+
+  Array.from(sentence).forEach((char, idx, chars) => {
+    // "……" is one mark
+    if (char === '…' && chars[idx - 1] === '…') return;
+    if (char === '」' || char === '』') {
+      // A closing quote right after 。 or ？ still belongs to the phrase it closes
+      const last = phrases[phrases.length - 1];
+      if (length === 0 && last) last.text += name(ANNOUNCEMENTS[language].closeQuote);
+      else text += name(ANNOUNCEMENTS[language].closeQuote);
+      return;
+    }
+    if (char === '「' || char === '『') text += name(ANNOUNCEMENTS[language].openQuote);
+    else if (PUNCTUATION_NAMES[char]) text += name(PUNCTUATION_NAMES[char]);
+    else {
+      text += char;
+      if (isHan(char)) length++;
+    }
+    if (PHRASE_END.test(char) && length > 0) {
+      phrases.push({ text, length });
+      text = '';
+      length = 0;
+    }
+  });
+  if (length > 0) phrases.push({ text, length });
+  return phrases.map(phrase => ({ ...phrase, text: phrase.text.replace(/^，+/, '').replace(/，{2,}/g, '，') }));
+};
+
+const countHan = (text: string) => Array.from(text).filter(isHan).length;
+
+// Read the text `repeats` times with a short gap, then leave time to write
+const readAndWait = (steps: ExamStep[], text: string, length: number, itemIndex: number, settings: ExamSettings) => {
+  for (let r = 0; r < settings.repeats; r++) {
+    if (r > 0) steps.push({ kind: 'pause', ms: 1200, writing: false, itemIndex });
+    steps.push({ kind: 'speak', text, slow: true, itemIndex });
+  }
+  steps.push({ kind: 'pause', ms: Math.max(3000, length * settings.secondsPerChar * 1000), writing: true, itemIndex });
+};
+
+/**
+ * The whole dictation as a list of steps. Paragraphs are read phrase by
+ * phrase; words, idioms and characters are announced as numbered questions.
+ */
+export const buildExamScript = (
+  items: DictationItem[],
+  mode: DictationMode,
+  language: Language,
+  settings: ExamSettings = DEFAULT_EXAM_SETTINGS
+): ExamStep[] => {
+  const steps: ExamStep[] = [
+    { kind: 'speak', text: ANNOUNCEMENTS[language].start, slow: false, itemIndex: -1 },
+    { kind: 'pause', ms: 1500, writing: false, itemIndex: -1 },
+  ];
+
+  items.forEach((item, itemIndex) => {
+    if (mode === 'paragraph') {
+      splitPhrases(item.content, language, settings.readPunctuation).forEach(phrase =>
+        readAndWait(steps, phrase.text, phrase.length, itemIndex, settings)
+      );
+      return;
+    }
+    const text = mode === 'character' ? characterCue(item, language) : item.content;
+    steps.push({ kind: 'speak', text: `第${toChineseNumber(itemIndex + 1)}題`, slow: false, itemIndex });
+    steps.push({ kind: 'pause', ms: 800, writing: false, itemIndex });
+    readAndWait(steps, text, countHan(item.content), itemIndex, settings);
+  });
+
+  steps.push({ kind: 'speak', text: ANNOUNCEMENTS[language].end, slow: false, itemIndex: -1 });
+  return steps;
+};
+
+export type ExamStatus = 'idle' | 'running' | 'paused' | 'finished';
+
+export interface ExamProgress {
+  status: ExamStatus;
+  step: ExamStep | null;
+  stepIndex: number;
+}
+
+export interface ExamAudio {
+  speak: (text: string, slow: boolean) => Promise<void>; // Resolves when the speech has ended
+  cancel: () => void;
+}
+
+export interface ExamPlayer {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void; // Jump to the next item
+  stop: () => void;
+}
+
+/**
+ * Plays an exam script step by step. Pausing cuts the current step short
+ * and resuming plays that step again from the beginning.
+ */
+export const createExamPlayer = (
+  script: ExamStep[],
+  audio: ExamAudio,
+  onProgress: (progress: ExamProgress) => void
+): ExamPlayer => {
+  let index = 0;
+  let status: ExamStatus = 'idle';
+  let run = 0; // Bumped on every interruption so a superseded loop stops
+  let endWait: (() => void) | null = null;
+
+  const report = () => onProgress({ status, step: script[index] || null, stepIndex: index });
+
+  const wait = (ms: number) =>
+    new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        endWait = null;
+        resolve();
+      }, ms);
+      endWait = () => {
+        clearTimeout(timer);
+        endWait = null;
+        resolve();
+      };
+    });
+
+  const loop = async (token: number) => {
+    while (index < script.length) {
+      report();
+      const step = script[index];
+      if (step.kind === 'speak') await audio.speak(step.text, step.slow);
+      else await wait(step.ms);
+      if (token !== run) return;
+      index++;
+    }
+    status = 'finished';
+    report();
+  };
+
+  const interrupt = () => {
+    run++;
+    audio.cancel();
+    endWait?.();
+  };
+
+  const play = () => {
+    status = 'running';
+    loop(++run);
+  };
+
+  return {
+    start: () => {
+      interrupt();
+      index = 0;
+      play();
+    },
+    pause: () => {
+      if (status !== 'running') return;
+      interrupt();
+      status = 'paused';
+      report();
+    },
+    resume: () => {
+      if (status === 'paused') play();
+    },
+    skip: () => {
+      if (status !== 'running' && status !== 'paused') return;
+      const current = script[index]?.itemIndex ?? -1;
+      const next = script.findIndex((step, i) => i > index && step.itemIndex !== current);
+      interrupt();
+      index = next < 0 ? script.length : next;
+      if (status === 'running') play();
+      else report();
+    },
+    stop: () => {
+      interrupt();
+      status = 'idle';
+      index = 0;
+      report();
+    },
+  };
+};
@@ -1,9 +1,44 @@
 
 import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { DictationItem, DictationMode } from "../types";
+import { ClozeSettings, DictationItem, DictationMode, RecognizedLine, WordClass } from "../types";
+import { DEFAULT_CLOZE_SETTINGS, clozeRatio } from "./clozeUtils";
+import type { AIProvider } from "./aiProvider";
 
-// NOTE: API Key is assumed to be in process.env.API_KEY
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// NOTE: API Key is assumed to be in process.env.API_KEY.
+// The client is created on first use so the app can load without a key.
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
+
+const WORD_CLASS_PROMPTS: Record<WordClass, string> = {
+  particle: 'simple particles (e.g., 的, 了, 著, 嗎)',
+  pronoun: 'simple pronouns (我, 你, 他, 這, 那)',
+  connective: 'basic connecting words (和, 也, 在, 是, 因為, 所以)',
+  number: 'numbers and measure words (一, 三隻, 幾個)',
+};
+
+const DIFFICULTY_NAMES = { easy: 'Easy', medium: 'Medium', hard: 'Hard', custom: 'Custom' };
+
+const describeKeptWords = (cloze: ClozeSettings) =>
+  cloze.keepWordClasses.length > 0
+    ? cloze.keepWordClasses.map(c => WORD_CLASS_PROMPTS[c]).join(', ') + ', and punctuation'
+    : 'Only punctuation';
+
+const describeVocabCloze = (cloze: ClozeSettings) => {
+  switch (cloze.difficulty) {
+    case 'easy':
+      return `replace the target word by '______' but KEEP its first character as a hint (e.g. '蘋______')`;
+    case 'medium':
+      return `replace the target word by '______'`;
+    default:
+      return `replace the target word by '______', and also blank out about ${Math.round(clozeRatio(cloze) * 50)}% of the other content words (never the words right next to the target)`;
+  }
+};
 
 /**
  * Analyzes raw text or images to generate a dictation list based on the selected mode.
@@ -11,7 +46,8 @@ const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 export const analyzeMaterial = async (
   text: string, 
   files: { mimeType: string; data: string }[], 
-  mode: DictationMode
+  mode: DictationMode,
+  cloze: ClozeSettings = DEFAULT_CLOZE_SETTINGS
 ): Promise<DictationItem[]> => {
   try {
     const parts: any[] = [];
@@ -44,11 +80,11 @@ export const analyzeMaterial = async (
         \n**Mode: Paragraph (Article Cloze)**
         - Extract text and split it into logical sentences.
         - **Structure**: Detect paragraph breaks. Set "newParagraph": true if a sentence starts a new paragraph in the source text.
-        - **Cloze Generation**: Create a 'clozeContent' version (Hard Difficulty).
-           - **Target Ratio**: Blank out approximately **2/3 (60-70%)** of the content.
+        - **Cloze Generation**: Create a 'clozeContent' version (${DIFFICULTY_NAMES[cloze.difficulty]} Difficulty).
+           - **Target Ratio**: Blank out approximately **${Math.round(clozeRatio(cloze) * 100)}%** of the content words.
            - **Strategy**: 
-             - **KEEP**: Only simple particles (e.g., 的, 了, 在, 是, 有, 著), simple pronouns (我, 你, 他), basic connecting words, and punctuation.
-             - **BLANK OUT**: All nouns, verbs, adjectives, idioms, specific names, and complex vocabulary.
+             - **KEEP**: ${describeKeptWords(cloze)}.
+             - **BLANK OUT**: Choose from nouns, verbs, adjectives, idioms, specific names, and complex vocabulary, spread evenly through the sentence.
              - Use '______' to represent blanked out words.
              - Ensure the flow of the sentence remains visible via punctuation and particles, but the main meaning requires filling in.
         `;
@@ -56,7 +92,7 @@ export const analyzeMaterial = async (
           type: Type.OBJECT,
           properties: {
             content: { type: Type.STRING, description: "The complete sentence" },
-            clozeContent: { type: Type.STRING, description: "Sentence with approx 2/3 words replaced by ______" },
+            clozeContent: { type: Type.STRING, description: `Sentence with approx ${Math.round(clozeRatio(cloze) * 100)}% of content words replaced by ______` },
             meaning: { type: Type.STRING, description: "Simple meaning/translation" },
             newParagraph: { type: Type.BOOLEAN, description: "True if this sentence starts a new paragraph" }
           },
@@ -69,25 +105,53 @@ export const analyzeMaterial = async (
         \n**Mode: Idioms (Chengyu)**
         - Identify 4-character Chinese idioms.
         - Provide the idiom and its Chinese meaning.
+        - Give the Pinyin and the Cantonese Jyutping (with tone numbers, e.g. "jat1 sam1 jat1 ji3").
         `;
         itemSchema = {
           type: Type.OBJECT,
           properties: {
             content: { type: Type.STRING, description: "The Idiom" },
             subContent: { type: Type.STRING, description: "Pinyin" },
+            jyutping: { type: Type.STRING, description: "Jyutping with tone numbers, space separated" },
             meaning: { type: Type.STRING, description: "Meaning/Explanation in Traditional Chinese" }
           },
           required: ["content", "meaning"]
         };
         break;
 
+      case 'character':
+        systemInstruction += `
+        \n**Mode: Single Characters (生字)**
+        - Identify each new character (生字) to be learnt. Each item is ONE character.
+        - Give its radical (部首) and total stroke count in Hong Kong standard forms.
+        - Give the Pinyin and the Cantonese Jyutping (with tone numbers, e.g. "ping4").
+        - List 2-4 common words that use the character, taken from the text where possible.
+        - Choose one "cueWord" from them that tells the character apart from its homophones when read aloud (e.g. "蘋果" for 蘋, read as "蘋果嘅蘋").
+        `;
+        itemSchema = {
+          type: Type.OBJECT,
+          properties: {
+            content: { type: Type.STRING, description: "The single character" },
+            radical: { type: Type.STRING, description: "Radical (部首)" },
+            strokeCount: { type: Type.INTEGER, description: "Total number of strokes" },
+            subContent: { type: Type.STRING, description: "Pinyin" },
+            jyutping: { type: Type.STRING, description: "Jyutping with tone number" },
+            meaning: { type: Type.STRING, description: "Simple Chinese meaning" },
+            commonWords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Common words containing the character" },
+            cueWord: { type: Type.STRING, description: "Word read with the character to disambiguate it" }
+          },
+          required: ["content", "radical", "strokeCount", "commonWords", "cueWord"]
+        };
+        break;
+
       case 'vocab':
       default:
         systemInstruction += `
         \n**Mode: Vocabulary (Contextual Fill-in-the-Blank)**
         - Identify key vocabulary words.
+        - Give the Pinyin and the Cantonese Jyutping (with tone numbers, e.g. "ping4 gwo2") of each word.
         - **Sentence Generation**: For EACH word, create (or extract) a simple example sentence using that word.
-        - **Cloze Generation**: Create a 'clozeContent' version of that sentence where the target word is replaced by '______'.
+        - **Cloze Generation**: Create a 'clozeContent' version of that sentence: ${describeVocabCloze(cloze)}.
         - Ensure 100% character accuracy.
         `;
         itemSchema = {
@@ -95,9 +159,10 @@ export const analyzeMaterial = async (
           properties: {
             content: { type: Type.STRING, description: "The target Word" },
             subContent: { type: Type.STRING, description: "Pinyin" },
+            jyutping: { type: Type.STRING, description: "Jyutping with tone numbers, space separated" },
             meaning: { type: Type.STRING, description: "Simple Chinese meaning/definition" },
             example: { type: Type.STRING, description: "Full example sentence containing the word" },
-            clozeContent: { type: Type.STRING, description: "Example sentence with the word replaced by ______" }
+            clozeContent: { type: Type.STRING, description: "Example sentence with the word blanked by ______" }
           },
           required: ["content", "meaning", "example", "clozeContent"]
         };
@@ -110,7 +175,7 @@ export const analyzeMaterial = async (
     
     parts.push({ text: systemInstruction });
 
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash",
       contents: { parts: parts },
       config: {
@@ -130,10 +195,15 @@ export const analyzeMaterial = async (
       id: index.toString(),
       content: item.content,
       subContent: item.subContent || item.pinyin || "",
+      jyutping: item.jyutping || "",
       meaning: item.meaning || "",
       example: item.example || "",
       clozeContent: item.clozeContent || "",
-      isNewParagraph: item.newParagraph || false
+      isNewParagraph: item.newParagraph || false,
+      radical: item.radical || "",
+      strokeCount: typeof item.strokeCount === 'number' ? item.strokeCount : undefined,
+      commonWords: Array.isArray(item.commonWords) ? item.commonWords : [],
+      cueWord: item.cueWord || ""
     }));
 
   } catch (error) {
@@ -142,19 +212,96 @@ export const analyzeMaterial = async (
   }
 };
 
+/**
+ * Reads the child's handwriting from a photo of a finished dictation paper.
+ * Returns each written line with per-character bounding boxes; an empty
+ * array means nothing legible was found. Request failures are rethrown so
+ * the grader can tell them apart from an unreadable photo.
+ */
+export const recognizeHandwriting = async (
+  photo: { mimeType: string; data: string }
+): Promise<RecognizedLine[]> => {
+  try {
+    const systemInstruction = `
+    You are marking a primary school Chinese dictation paper written by a child.
+
+    **CRITICAL TRANSCRIPTION INSTRUCTIONS:**
+    1. Transcribe the handwriting EXACTLY as written, including wrong characters, missing strokes and punctuation.
+    2. **Do NOT correct any mistakes.** A wrong character must stay wrong in the output.
+    3. If a character is unreadable, output '□' for it.
+    4. Return one entry per written line, top to bottom. Do not include question numbers (e.g. "1.", "（一）").
+    5. For every character, give its bounding box as [ymin, xmin, ymax, xmax] normalised to 0-1000.
+    `;
+
+    const response = await getClient().models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: [
+          { inlineData: { mimeType: photo.mimeType, data: photo.data } },
+          { text: systemInstruction }
+        ]
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              text: { type: Type.STRING, description: "The line exactly as written" },
+              chars: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    char: { type: Type.STRING },
+                    box_2d: { type: Type.ARRAY, items: { type: Type.INTEGER } }
+                  },
+                  required: ["char"]
+                }
+              }
+            },
+            required: ["text", "chars"]
+          },
+        },
+      },
+    });
+
+    const rawLines = JSON.parse(response.text || "[]");
+
+    return rawLines.map((line: any) => ({
+      text: line.text || "",
+      chars: (line.chars || []).map((c: any) => ({
+        char: c.char,
+        box: Array.isArray(c.box_2d) && c.box_2d.length === 4 ? c.box_2d : undefined
+      }))
+    }));
+
+  } catch (error) {
+    console.error("Error recognizing handwriting:", error);
+    throw error;
+  }
+};
+
 /**
  * Generates audio for the Assistant (Gemini TTS).
  */
-export const generateSpeech = async (text: string): Promise<string | null> => {
+const SPEECH_VOICE = 'Kore';
+
+export const generateSpeech = async (text: string, language: 'mandarin' | 'cantonese'): Promise<string | null> => {
+  // The text alone does not tell Cantonese from Mandarin, so the prompt names the language
+  const instruction = language === 'cantonese'
+    ? 'Read the following aloud in Hong Kong Cantonese (粵語):'
+    : 'Read the following aloud in Mandarin (普通話):';
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: text }] }],
+      contents: [{ parts: [{ text: `${instruction}\n${text}` }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
           voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: 'Kore' },
+            prebuiltVoiceConfig: { voiceName: SPEECH_VOICE },
           },
         },
       },
@@ -189,7 +336,7 @@ export const chatWithAssistant = async (
     Response (Keep it short, encouraging. Use Traditional Chinese):
     `;
 
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash",
       contents: prompt,
     });
@@ -200,3 +347,13 @@ export const chatWithAssistant = async (
     return "出了點小問題，我們繼續努力！";
   }
 };
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  speechVoice: SPEECH_VOICE,
+  isAvailable: () => !!process.env.API_KEY,
+  analyzeMaterial,
+  recognizeHandwriting,
+  generateSpeech,
+  chatWithAssistant,
+};
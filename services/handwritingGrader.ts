@@ -0,0 +1,163 @@
+import { CharBox, DictationItem, DictationMode, GradedItem, PhotoGrade, RecognizedChar, RecognizedLine } from "../types";
+import { recognizeHandwriting } from "./aiProvider";
+import { checkAnswer, diffCharacters, normalizeAnswer } from "./answerChecker";
+
+export interface PhotoInput {
+  mimeType: string;
+  data: string; // Base64 without the data URL prefix
+}
+
+/**
+ * Anything that can turn a photo of handwriting into lines of characters.
+ * Grading only depends on this, so tests can swap in a local fake.
+ */
+export interface HandwritingRecognizer {
+  recognize: (photo: PhotoInput) => Promise<RecognizedLine[]>;
+}
+
+// Uses whichever AI provider is configured
+export const defaultRecognizer: HandwritingRecognizer = {
+  recognize: recognizeHandwriting,
+};
+
+/**
+ * A recognizer that returns fixed lines without any network access.
+ * Dev-only stub for trying the grading flow by hand; the repo has no test suite.
+ */
+export const createFakeRecognizer = (lines: (string | RecognizedLine)[]): HandwritingRecognizer => ({
+  recognize: async () =>
+    lines.map(line =>
+      typeof line === 'string'
+        ? { text: line, chars: Array.from(line).map(char => ({ char })) }
+        : line
+    ),
+});
+
+// Keeps each normalised character together with where it was written
+const normalizeChars = (chars: RecognizedChar[], mode: DictationMode) =>
+  chars.flatMap(c => normalizeAnswer(c.char, mode).map(char => ({ char, box: c.box })));
+
+// Question numbers the model sometimes keeps, e.g. "1." or "（一）"
+const stripNumbering = (chars: RecognizedChar[]) => {
+  const text = chars.map(c => c.char).join('');
+  const match = text.match(/^\s*(?:\d+|[（(][一二三四五六七八九十\d]+[）)])[.、．:：]?\s*/);
+  return match ? chars.slice(Array.from(match[0]).length) : chars;
+};
+
+const gradeChars = (
+  item: DictationItem,
+  written: { char: string; box?: CharBox }[],
+  mode: DictationMode
+): GradedItem => {
+  const answer = written.map(w => w.char).join('');
+  const result = checkAnswer(item, answer, mode);
+
+  // Walk the diff to attach a box to every written character
+  let cursor = 0;
+  const boxes = result.diff.map(d => {
+    if (d.actual === undefined) return null;
+    return written[cursor++]?.box || null;
+  });
+
+  return { result, boxes };
+};
+
+const similarity = (expected: string[], actual: string[]) => {
+  if (expected.length === 0 || actual.length === 0) return 0;
+  const diff = diffCharacters(expected, actual);
+  const correct = diff.filter(d => d.status === 'correct').length;
+  return correct / Math.max(expected.length, actual.length);
+};
+
+/**
+ * Matches written lines to items in order (a line can be left out, e.g. a
+ * heading, and an item can be skipped if the child left it blank).
+ */
+const matchLinesToItems = (
+  items: DictationItem[],
+  lines: { char: string; box?: CharBox }[][],
+  mode: DictationMode
+): (number | null)[] => {
+  const MIN_SIMILARITY = 0.2;
+  const n = items.length;
+  const m = lines.length;
+  const expected = items.map(item => normalizeAnswer(item.content, mode));
+  const actual = lines.map(line => line.map(c => c.char));
+
+  // best[i][j]: best total score using the first i items and first j lines
+  const best: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const score = similarity(expected[i - 1], actual[j - 1]);
+      const matched = score >= MIN_SIMILARITY ? best[i - 1][j - 1] + score : -Infinity;
+      best[i][j] = Math.max(matched, best[i - 1][j], best[i][j - 1]);
+    }
+  }
+
+  const assignment: (number | null)[] = new Array(n).fill(null);
+  let i = n;
+  let j = m;
+  while (i > 0 && j > 0) {
+    const score = similarity(expected[i - 1], actual[j - 1]);
+    if (score >= MIN_SIMILARITY && best[i][j] === best[i - 1][j - 1] + score) {
+      assignment[i - 1] = j - 1;
+      i--;
+      j--;
+    } else if (best[i][j] === best[i - 1][j]) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+  return assignment;
+};
+
+/**
+ * Grades a photo of a finished dictation paper against the current list.
+ * Paragraph answers wrap freely across lines, so they are joined and
+ * aligned as one text; other modes match one written line per item.
+ */
+export const gradeHandwriting = async (
+  photo: PhotoInput,
+  items: DictationItem[],
+  mode: DictationMode,
+  recognizer: HandwritingRecognizer = defaultRecognizer
+): Promise<PhotoGrade> => {
+  const lines = await recognizer.recognize(photo);
+
+  if (mode === 'paragraph') {
+    const written = normalizeChars(lines.flatMap(line => line.chars), mode);
+    const expected = items.flatMap(item => normalizeAnswer(item.content, mode));
+    const diff = diffCharacters(expected, written.map(w => w.char));
+
+    // Split the combined diff back into one slice per item
+    const graded: GradedItem[] = [];
+    let diffIndex = 0;
+    let writtenIndex = 0;
+    for (const item of items) {
+      const length = normalizeAnswer(item.content, mode).length;
+      const slice: { char: string; box?: CharBox }[] = [];
+      let consumed = 0;
+      while (diffIndex < diff.length && (consumed < length || diff[diffIndex].status === 'extra')) {
+        const d = diff[diffIndex++];
+        if (d.expected !== undefined) consumed++;
+        if (d.actual !== undefined) slice.push(written[writtenIndex++]);
+        // Trailing extras belong to the next sentence unless this is the last one
+        if (consumed === length && item !== items[items.length - 1]) break;
+      }
+      graded.push(gradeChars(item, slice, mode));
+    }
+    return { items: graded, lines };
+  }
+
+  const writtenLines = lines.map(line => normalizeChars(stripNumbering(line.chars), mode));
+  const assignment = matchLinesToItems(items, writtenLines, mode);
+
+  return {
+    items: items.map((item, idx) => {
+      const lineIndex = assignment[idx];
+      return gradeChars(item, lineIndex === null ? [] : writtenLines[lineIndex], mode);
+    }),
+    lines,
+  };
+};
@@ -0,0 +1,85 @@
+import { SavedList } from "../types";
+import { createId, withStore } from "./db";
+
+export type NewSavedList = Omit<SavedList, 'id' | 'createdAt'>;
+
+/**
+ * Saves a generated list so it can be practised again without calling Gemini.
+ */
+export const saveList = async (list: NewSavedList): Promise<SavedList> => {
+  const saved: SavedList = { ...list, id: createId(), createdAt: Date.now() };
+  await withStore('lists', 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Returns the profile's saved lists, newest first.
+ */
+export const getAllLists = async (profileId: string): Promise<SavedList[]> => {
+  const lists = await withStore<SavedList[]>('lists', 'readonly', store => store.index('profileId').getAll(profileId));
+  return lists.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const updateList = async (id: string, changes: Partial<NewSavedList>): Promise<SavedList | null> => {
+  const existing = await withStore<SavedList | undefined>('lists', 'readonly', store => store.get(id));
+  if (!existing) return null;
+  const updated = { ...existing, ...changes };
+  await withStore('lists', 'readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const duplicateList = async (list: SavedList): Promise<SavedList> => {
+  const { id, createdAt, ...rest } = list;
+  return saveList({ ...rest, title: `${list.title} (副本)` });
+};
+
+export const deleteList = async (id: string): Promise<void> => {
+  await withStore('lists', 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Matches the query against title, tags and item contents.
+ */
+export const searchLists = (lists: SavedList[], query: string): SavedList[] => {
+  const q = query.trim().toLowerCase();
+  if (!q) return lists;
+  return lists.filter(list =>
+    list.title.toLowerCase().includes(q) ||
+    list.tags.some(tag => tag.toLowerCase().includes(q)) ||
+    list.items.some(item => item.content.includes(q))
+  );
+};
+
+/**
+ * Builds a default title from the first few items, e.g. "蘋果、香蕉、葡萄…".
+ */
+export const defaultListTitle = (list: Pick<SavedList, 'items'>): string => {
+  const preview = list.items.slice(0, 3).map(item => item.content.slice(0, 8)).join('、');
+  return list.items.length > 3 ? `${preview}…` : preview;
+};
+
+export const parseTags = (text: string): string[] =>
+  text.split(/[,，、\s]+/).map(tag => tag.trim()).filter(Boolean);
+
+/**
+ * Shrinks an uploaded page to a small JPEG data URL for the library card.
+ */
+export const createThumbnail = (file: { mimeType: string; data: string }, maxSize: number = 160): Promise<string | null> => {
+  if (!file.mimeType.startsWith('image/')) return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(null);
+    img.src = `data:${file.mimeType};base64,${file.data}`;
+  });
+};
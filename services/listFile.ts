@@ -0,0 +1,375 @@
+import { DictationItem, DictationMode } from "../types";
+import { splitWordList } from "./textUtils";
+
+// Versioned file format for sharing dictation lists between families and teachers.
+export const LIST_FILE_FORMAT = 'dictation-helper-list';
+export const LIST_FILE_VERSION = 1;
+
+const MODES: DictationMode[] = ['vocab', 'idiom', 'paragraph', 'character'];
+const LANGUAGES = ['cantonese', 'mandarin'] as const;
+
+type ItemField =
+  | 'content' | 'subContent' | 'jyutping' | 'meaning' | 'example' | 'clozeContent' | 'isNewParagraph'
+  | 'radical' | 'strokeCount' | 'commonWords' | 'cueWord';
+
+// Fields stored as plain text on DictationItem
+const TEXT_FIELDS = ['subContent', 'jyutping', 'meaning', 'example', 'clozeContent', 'radical', 'cueWord'] as const;
+
+export interface DictationListFile {
+  format: typeof LIST_FILE_FORMAT;
+  version: number;
+  title?: string;
+  mode: DictationMode;
+  audioLanguage: 'mandarin' | 'cantonese';
+  items: Omit<DictationItem, 'id'>[];
+}
+
+export interface ImportError {
+  row: number; // 1-based row in the CSV, or item number in JSON
+  message: string;
+}
+
+export interface ImportResult {
+  items: DictationItem[];
+  title?: string;
+  mode?: DictationMode;
+  audioLanguage?: 'mandarin' | 'cantonese';
+  errors: ImportError[];
+}
+
+// Column headings written on export
+const CSV_HEADERS: Record<ItemField, string> = {
+  content: '內容',
+  subContent: '拼音',
+  jyutping: '粵拼',
+  meaning: '解釋',
+  example: '例句',
+  clozeContent: '填充',
+  isNewParagraph: '新段落',
+  radical: '部首',
+  strokeCount: '筆畫',
+  commonWords: '常用詞',
+  cueWord: '提示詞',
+};
+
+// Headings recognised on import, matched case-insensitively
+const COLUMN_ALIASES: Record<ItemField, string[]> = {
+  content: ['內容', '詞語', '詞', '成語', '句子', '字', '生字', 'content', 'word', 'idiom', 'sentence'],
+  subContent: ['拼音', '讀音', '注音', 'pinyin', 'subcontent'],
+  jyutping: ['粵拼', '粵音', 'jyutping'],
+  meaning: ['解釋', '意思', '詞義', 'meaning', 'definition'],
+  example: ['例句', '造句', 'example'],
+  clozeContent: ['填充', '填充題', 'cloze', 'clozecontent'],
+  isNewParagraph: ['新段落', '段落開始', 'newparagraph', 'isnewparagraph'],
+  radical: ['部首', 'radical'],
+  strokeCount: ['筆畫', '筆劃', '總筆畫', 'strokes', 'strokecount'],
+  commonWords: ['常用詞', '常用詞語', '配詞', 'commonwords'],
+  cueWord: ['提示詞', '讀法', 'cueword'],
+};
+
+// Column order assumed when the file has no heading row
+const DEFAULT_COLUMNS: ItemField[] = ['content', 'subContent', 'meaning', 'example', 'clozeContent'];
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y', '是', '✓'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', '否', ''];
+
+// --- Export ---
+
+export const exportListAsJson = (
+  items: DictationItem[],
+  mode: DictationMode,
+  audioLanguage: 'mandarin' | 'cantonese',
+  title?: string
+): string => {
+  const file: DictationListFile = {
+    format: LIST_FILE_FORMAT,
+    version: LIST_FILE_VERSION,
+    title,
+    mode,
+    audioLanguage,
+    items: items.map(({ id, ...rest }) => rest),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+const formatCell = (item: DictationItem, field: ItemField): string => {
+  switch (field) {
+    case 'isNewParagraph':
+      return item.isNewParagraph ? '1' : '';
+    case 'strokeCount':
+      return item.strokeCount?.toString() || '';
+    case 'commonWords':
+      return (item.commonWords || []).join('、');
+    default:
+      return item[field] || '';
+  }
+};
+
+const escapeCsvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * CSV with a UTF-8 BOM so Excel opens the Chinese text correctly.
+ * The first row carries the format version, mode and audio language.
+ */
+export const exportListAsCsv = (
+  items: DictationItem[],
+  mode: DictationMode,
+  audioLanguage: 'mandarin' | 'cantonese'
+): string => {
+  const fields = Object.keys(CSV_HEADERS) as ItemField[];
+  const rows = [
+    [`#${LIST_FILE_FORMAT}`, `version=${LIST_FILE_VERSION}`, `mode=${mode}`, `audioLanguage=${audioLanguage}`],
+    fields.map(field => CSV_HEADERS[field]),
+    ...items.map(item => fields.map(field => formatCell(item, field))),
+  ];
+  return '\uFEFF' + rows.map(row => row.map(escapeCsvCell).join(',')).join('\r\n');
+};
+
+export const downloadFile = (fileName: string, content: string | Blob, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Some browsers start reading a large blob only after click() returns
+  setTimeout(() => URL.revokeObjectURL(url), 10000);
+};
+
+// --- Import ---
+
+/**
+ * Reads a file as text. Excel saves plain "CSV" in the system code page,
+ * which is Big5 on Hong Kong machines, so fall back to that when the bytes
+ * are not valid UTF-8.
+ */
+export const readFileAsText = async (file: File): Promise<string> => {
+  const buffer = await file.arrayBuffer();
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('big5').decode(buffer);
+  }
+};
+
+/**
+ * Parses CSV text (RFC 4180 quoting). The delimiter is guessed from the
+ * first line so tab- and semicolon-separated exports also work.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = ['\t', ';', ','].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best
+  , ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const matchColumn = (heading: string): ItemField | null => {
+  const normalized = heading.trim().toLowerCase().replace(/[\s_()（）]/g, '');
+  const field = (Object.keys(COLUMN_ALIASES) as ItemField[]).find(f => COLUMN_ALIASES[f].includes(normalized));
+  return field || null;
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const v = value.trim().toLowerCase();
+  if (TRUE_VALUES.includes(v)) return true;
+  if (FALSE_VALUES.includes(v)) return false;
+  return null;
+};
+
+const parseStrokeCount = (value: string): number | null => {
+  const count = Number(value.trim());
+  return Number.isInteger(count) && count > 0 ? count : null;
+};
+
+const parseMetadata = (cells: string[], result: ImportResult) => {
+  cells.forEach(cell => {
+    const [key, value] = cell.replace(/^#/, '').split('=').map(s => s.trim());
+    if (key === 'version' && Number(value) > LIST_FILE_VERSION) {
+      result.errors.push({ row: 1, message: `檔案版本 ${value} 較新，部分內容可能無法讀取` });
+    } else if (key === 'mode' && MODES.includes(value as DictationMode)) {
+      result.mode = value as DictationMode;
+    } else if (key === 'audioLanguage' && (LANGUAGES as readonly string[]).includes(value)) {
+      result.audioLanguage = value as 'mandarin' | 'cantonese';
+    }
+  });
+};
+
+export const parseCsvList = (text: string): ImportResult => {
+  const result: ImportResult = { items: [], errors: [] };
+  const rows = parseCsv(text);
+  let rowIndex = 0;
+
+  if (rows[0]?.[0]?.trim().startsWith('#')) {
+    parseMetadata(rows[0], result);
+    rowIndex++;
+  }
+
+  // Use the heading row if it names at least the content column
+  let columns: (ItemField | null)[] = DEFAULT_COLUMNS;
+  const headings = rows[rowIndex] || [];
+  const matched = headings.map(matchColumn);
+  if (matched.includes('content')) {
+    columns = matched;
+    headings.forEach((heading, idx) => {
+      if (!matched[idx] && heading.trim()) {
+        result.errors.push({ row: rowIndex + 1, message: `未能識別欄位「${heading.trim()}」，已略過` });
+      }
+    });
+    rowIndex++;
+  }
+
+  for (; rowIndex < rows.length; rowIndex++) {
+    const cells = rows[rowIndex];
+    const rowNumber = rowIndex + 1;
+    if (cells.every(cell => !cell.trim())) continue;
+
+    const item: DictationItem = { id: result.items.length.toString(), content: '' };
+    let valid = true;
+
+    columns.forEach((field, idx) => {
+      const value = (cells[idx] || '').trim();
+      if (!field) return;
+      if (field === 'isNewParagraph') {
+        const flag = parseBoolean(value);
+        if (flag === null) {
+          result.errors.push({ row: rowNumber, message: `「新段落」應為 是/否，收到「${value}」` });
+          valid = false;
+        } else {
+          item.isNewParagraph = flag;
+        }
+      } else if (field === 'strokeCount') {
+        if (!value) return;
+        const count = parseStrokeCount(value);
+        if (count === null) {
+          result.errors.push({ row: rowNumber, message: `「筆畫」應為正整數，收到「${value}」` });
+          valid = false;
+        } else {
+          item.strokeCount = count;
+        }
+      } else if (field === 'commonWords') {
+        item.commonWords = splitWordList(value).filter(Boolean);
+      } else {
+        item[field] = value;
+      }
+    });
+
+    if (!item.content) {
+      result.errors.push({ row: rowNumber, message: '缺少內容' });
+      valid = false;
+    }
+    if (valid) result.items.push(item);
+  }
+
+  return result;
+};
+
+export const parseJsonList = (text: string): ImportResult => {
+  const result: ImportResult = { items: [], errors: [] };
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    result.errors.push({ row: 0, message: '不是有效的 JSON 檔案' });
+    return result;
+  }
+
+  // A bare array of items is accepted too
+  const rawItems = Array.isArray(data) ? data : data?.items;
+  if (!Array.isArray(data)) {
+    if (data?.format !== LIST_FILE_FORMAT) {
+      result.errors.push({ row: 0, message: '不是默書小助手的檔案格式' });
+      return result;
+    }
+    if (typeof data.version !== 'number' || data.version > LIST_FILE_VERSION) {
+      result.errors.push({ row: 0, message: `不支援的檔案版本 ${data.version}` });
+      return result;
+    }
+    if (MODES.includes(data.mode)) result.mode = data.mode;
+    if (LANGUAGES.includes(data.audioLanguage)) result.audioLanguage = data.audioLanguage;
+    if (typeof data.title === 'string') result.title = data.title;
+  }
+
+  if (!Array.isArray(rawItems)) {
+    result.errors.push({ row: 0, message: '找不到 items 列表' });
+    return result;
+  }
+
+  rawItems.forEach((raw: any, idx: number) => {
+    const row = idx + 1;
+    if (typeof raw?.content !== 'string' || !raw.content.trim()) {
+      result.errors.push({ row, message: '缺少內容' });
+      return;
+    }
+    const item: DictationItem = { id: result.items.length.toString(), content: raw.content.trim() };
+    for (const field of TEXT_FIELDS) {
+      if (raw[field] === undefined || raw[field] === null) continue;
+      if (typeof raw[field] !== 'string') {
+        result.errors.push({ row, message: `「${field}」應為文字` });
+        return;
+      }
+      item[field] = raw[field];
+    }
+    if (raw.strokeCount !== undefined && raw.strokeCount !== null) {
+      const count = parseStrokeCount(String(raw.strokeCount));
+      if (count === null) {
+        result.errors.push({ row, message: '「strokeCount」應為正整數' });
+        return;
+      }
+      item.strokeCount = count;
+    }
+    if (raw.commonWords !== undefined && raw.commonWords !== null) {
+      if (!Array.isArray(raw.commonWords) || raw.commonWords.some((w: unknown) => typeof w !== 'string')) {
+        result.errors.push({ row, message: '「commonWords」應為文字列表' });
+        return;
+      }
+      item.commonWords = raw.commonWords;
+    }
+    item.isNewParagraph = raw.isNewParagraph === true;
+    result.items.push(item);
+  });
+
+  return result;
+};
+
+export const parseListFile = (fileName: string, text: string): ImportResult =>
+  fileName.toLowerCase().endsWith('.json') ? parseJsonList(text) : parseCsvList(text);
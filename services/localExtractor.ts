@@ -0,0 +1,109 @@
+import { ClozeSettings, DictationItem, DictationMode } from "../types";
+import { splitParagraphs, splitSentences } from "./textUtils";
+import { DEFAULT_CLOZE_SETTINGS, clozeWords, generateCloze, generateVocabCloze, isFunctionWord } from "./clozeUtils";
+import { isHan } from "./romanization";
+
+// Builds dictation items from pasted Traditional Chinese text without any AI call.
+
+const extractParagraphItems = (text: string, cloze: ClozeSettings): DictationItem[] => {
+  const items: DictationItem[] = [];
+  splitParagraphs(text).forEach(paragraph => {
+    splitSentences(paragraph).forEach((sentence, idx) => {
+      items.push({
+        id: items.length.toString(),
+        content: sentence,
+        clozeContent: generateCloze(sentence, cloze),
+        meaning: '',
+        isNewParagraph: idx === 0,
+      });
+    });
+  });
+  return items;
+};
+
+// Every distinct multi-character content word, with the sentence it came from as the example
+const extractVocabItems = (text: string, cloze: ClozeSettings): DictationItem[] => {
+  const seen = new Set<string>();
+  const items: DictationItem[] = [];
+
+  splitParagraphs(text).flatMap(splitSentences).forEach(sentence => {
+    clozeWords(sentence).forEach(segment => {
+      const word = segment.text;
+      if (!segment.isWord || Array.from(word).length < 2 || isFunctionWord(word) || seen.has(word)) return;
+      seen.add(word);
+      items.push({
+        id: items.length.toString(),
+        content: word,
+        subContent: '',
+        meaning: '',
+        example: sentence,
+        clozeContent: generateVocabCloze(word, sentence, cloze),
+        isNewParagraph: false,
+      });
+    });
+  });
+  return items;
+};
+
+// Idioms are usually pasted as a list, so take each four-character entry
+const extractIdiomItems = (text: string): DictationItem[] => {
+  const idioms = text.split(/[\s\p{P}\p{S}]+/u).filter(token => Array.from(token).length === 4);
+  return Array.from(new Set(idioms)).map((idiom, index) => ({
+    id: index.toString(),
+    content: idiom,
+    subContent: '',
+    meaning: '',
+    isNewParagraph: false,
+  }));
+};
+
+// Each distinct character of the content words, with those words as its common words.
+// Radical and stroke count are left for the parent to fill in.
+const extractCharacterItems = (text: string): DictationItem[] => {
+  const wordsByChar = new Map<string, string[]>();
+
+  splitParagraphs(text).flatMap(splitSentences).forEach(sentence => {
+    clozeWords(sentence).forEach(segment => {
+      const word = segment.text;
+      if (!segment.isWord || isFunctionWord(word)) return;
+      Array.from(word).filter(isHan).forEach(char => {
+        const words = wordsByChar.get(char) || [];
+        if (word !== char && !words.includes(word)) words.push(word);
+        wordsByChar.set(char, words);
+      });
+    });
+  });
+
+  return Array.from(wordsByChar, ([char, words], index) => ({
+    id: index.toString(),
+    content: char,
+    subContent: '',
+    meaning: '',
+    radical: '',
+    commonWords: words.slice(0, 4),
+    cueWord: words[0] || '',
+    isNewParagraph: false,
+  }));
+};
+
+/**
+ * Local counterpart of analyzeMaterial for pasted text.
+ */
+export const extractLocally = (
+  text: string,
+  mode: DictationMode,
+  cloze: ClozeSettings = DEFAULT_CLOZE_SETTINGS
+): DictationItem[] => {
+  if (!text.trim()) return [];
+  switch (mode) {
+    case 'paragraph':
+      return extractParagraphItems(text, cloze);
+    case 'idiom':
+      return extractIdiomItems(text);
+    case 'character':
+      return extractCharacterItems(text);
+    case 'vocab':
+    default:
+      return extractVocabItems(text, cloze);
+  }
+};
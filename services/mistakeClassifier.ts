@@ -0,0 +1,136 @@
+import { CharDiff, Mistake, MistakeKind } from "../types";
+import { MISTAKE_LABELS } from "../constants";
+import { SHAPE_GROUPS, SOUND_GROUPS } from "./data/confusables";
+import { DECOMPOSITIONS } from "./data/decomposition";
+import { charReadings, isHan } from "./romanization";
+
+// Guesses why each wrong character in a graded answer went wrong, so the
+// results and the chat assistant can say more than "wrong".
+
+// How far apart a left-out character and the same character written
+// elsewhere may be to count as a swap rather than two separate mistakes
+const ORDER_WINDOW = 3;
+
+const MISTAKE_NAMES: Record<MistakeKind, string> = {
+  homophone: 'homophone',
+  lookalike: 'look-alike character',
+  radical: 'wrong radical',
+  omission: 'left out',
+  insertion: 'extra character',
+  order: 'swapped order',
+  other: 'other',
+};
+
+const inSameGroup = (groups: string[], a: string, b: string) =>
+  groups.some(group => group.includes(a) && group.includes(b));
+
+// The radical and the components other than the radical
+const parseDecomposition = (char: string) => {
+  const entry = DECOMPOSITIONS[char];
+  if (!entry) return null;
+  const [radical, components] = entry.split(' ');
+  return { radical, rest: Array.from(components).filter(c => c !== radical) };
+};
+
+// Same components apart from the radical, e.g. 晴 and 請
+const isRadicalSwap = (expected: string, actual: string): boolean => {
+  const a = parseDecomposition(expected);
+  const b = parseDecomposition(actual);
+  if (!a || !b || a.radical === b.radical) return false;
+  const restA = [...a.rest].sort().join('');
+  const restB = [...b.rest].sort().join('');
+  return restA !== '' && restA === restB;
+};
+
+// Same reading, tone included, in Cantonese or Mandarin. Ignoring tones
+// would make most substitutions homophones (是, 十, 時, 事)
+const isHomophone = (expected: string, actual: string): boolean => {
+  if (inSameGroup(SOUND_GROUPS, expected, actual)) return true;
+  const a = charReadings(expected);
+  const b = charReadings(actual);
+  return (!!a.jyutping && a.jyutping === b.jyutping) || (!!a.pinyin && a.pinyin === b.pinyin);
+};
+
+const isLookalike = (expected: string, actual: string): boolean => {
+  if (inSameGroup(SHAPE_GROUPS, expected, actual)) return true;
+  const a = parseDecomposition(expected);
+  const b = parseDecomposition(actual);
+  // A shared radical alone (把, 推) does not make two characters look alike
+  return !!a && !!b && a.rest.some(c => b.rest.includes(c));
+};
+
+/**
+ * Likely cause of one character written in place of another.
+ */
+export const classifySubstitution = (expected: string, actual: string): MistakeKind => {
+  if (!isHan(expected) || !isHan(actual)) return 'other';
+  if (isRadicalSwap(expected, actual)) return 'radical';
+  if (isHomophone(expected, actual)) return 'homophone';
+  if (isLookalike(expected, actual)) return 'lookalike';
+  return 'other';
+};
+
+/**
+ * Classifies every mistake in a character diff. Swapped neighbours
+ * (蘋果 written as 果蘋) are reported once as 'order', whether the diff
+ * shows them as two wrong characters or as a left-out and an extra one.
+ */
+export const classifyMistakes = (diff: CharDiff[]): Mistake[] => {
+  const mistakes: Mistake[] = [];
+  const handled = new Set<number>();
+
+  diff.forEach((d, idx) => {
+    if (handled.has(idx) || d.status === 'correct') return;
+
+    const next = diff[idx + 1];
+    if (d.status === 'wrong' && next?.status === 'wrong' && d.expected === next.actual && d.actual === next.expected) {
+      mistakes.push({ kind: 'order', positions: [idx, idx + 1], expected: d.expected! + next.expected!, actual: d.actual! + next.actual! });
+      handled.add(idx + 1);
+      return;
+    }
+
+    if (d.status === 'missing' || d.status === 'extra') {
+      const char = d.status === 'missing' ? d.expected : d.actual;
+      const partner = diff.findIndex((other, otherIdx) =>
+        otherIdx > idx &&
+        otherIdx - idx <= ORDER_WINDOW &&
+        !handled.has(otherIdx) &&
+        other.status === (d.status === 'missing' ? 'extra' : 'missing') &&
+        (other.status === 'missing' ? other.expected : other.actual) === char
+      );
+      if (partner >= 0) {
+        const between = diff.slice(idx + 1, partner).map(other => other.expected || '').join('');
+        mistakes.push({
+          kind: 'order',
+          positions: [idx, partner],
+          expected: d.status === 'missing' ? char + between : between + char!,
+          actual: d.status === 'missing' ? between + char : char + between,
+        });
+        handled.add(partner);
+        return;
+      }
+      mistakes.push(d.status === 'missing'
+        ? { kind: 'omission', positions: [idx], expected: d.expected!, actual: '' }
+        : { kind: 'insertion', positions: [idx], expected: '', actual: d.actual! });
+      return;
+    }
+
+    mistakes.push({ kind: classifySubstitution(d.expected!, d.actual!), positions: [idx], expected: d.expected!, actual: d.actual! });
+  });
+
+  return mistakes;
+};
+
+/**
+ * One line per mistake for the chat assistant's context, e.g.
+ * `"在" written as "再" (同音字, homophone)`.
+ */
+export const describeMistakes = (mistakes: Mistake[]): string =>
+  mistakes
+    .map(m => {
+      const label = `(${MISTAKE_LABELS[m.kind]}, ${MISTAKE_NAMES[m.kind]})`;
+      if (m.kind === 'omission') return `left out "${m.expected}" ${label}`;
+      if (m.kind === 'insertion') return `added "${m.actual}" ${label}`;
+      return `"${m.expected}" written as "${m.actual}" ${label}`;
+    })
+    .join('; ');
@@ -0,0 +1,111 @@
+import { DictationItem, DictationMode } from "../types";
+import type { AIProvider } from "./aiProvider";
+import { splitSentences } from "./textUtils";
+import { DEFAULT_CLOZE_SETTINGS, generateCloze, generateVocabCloze } from "./clozeUtils";
+
+// Deterministic stand-in for Gemini, used in development when AI_PROVIDER=mock.
+// A dev-only stub: the same input always produces the same output.
+
+const SAMPLE_TEXT: Record<DictationMode, string> = {
+  vocab: '蘋果 香蕉 葡萄 西瓜',
+  idiom: '一心一意 三心兩意 畫蛇添足 守株待兔',
+  paragraph: '今天是星期天，天氣晴朗。爸爸帶我去動物園。\n\n我們看見了長頸鹿吃樹葉，真有趣！',
+  character: '蘋果 香蕉 葡萄',
+};
+
+const PUNCTUATION = /[\s\p{P}\p{S}]+/u;
+
+const uniqueChunks = (text: string, size: number): string[] => {
+  const chunks: string[] = [];
+  text.split(PUNCTUATION).filter(Boolean).forEach(token => {
+    const chars = Array.from(token);
+    if (chars.length <= size) {
+      chunks.push(token);
+    } else {
+      for (let i = 0; i + size <= chars.length; i += size) chunks.push(chars.slice(i, i + size).join(''));
+    }
+  });
+  return Array.from(new Set(chunks));
+};
+
+const mockAnalyzeMaterial: AIProvider['analyzeMaterial'] = async (text, files, mode, cloze = DEFAULT_CLOZE_SETTINGS) => {
+  const source = text.trim() || SAMPLE_TEXT[mode];
+
+  if (mode === 'paragraph') {
+    const items: DictationItem[] = [];
+    source.split(/\n\s*\n/).forEach(paragraph => {
+      splitSentences(paragraph.replace(/\s+/g, '')).forEach((sentence, idx) => {
+        items.push({
+          id: items.length.toString(),
+          content: sentence,
+          clozeContent: generateCloze(sentence, cloze),
+          meaning: '',
+          isNewParagraph: idx === 0,
+        });
+      });
+    });
+    return items;
+  }
+
+  if (mode === 'character') {
+    const words = uniqueChunks(source, 2);
+    const chars = Array.from(new Set(words.flatMap(word => Array.from(word))));
+    return chars.map((char, index) => {
+      const commonWords = words.filter(word => word.includes(char));
+      return {
+        id: index.toString(),
+        content: char,
+        subContent: '',
+        meaning: `「${char}」的意思（模擬資料）`,
+        radical: '',
+        commonWords,
+        cueWord: commonWords[0] || '',
+        isNewParagraph: false,
+      };
+    });
+  }
+
+  const words = uniqueChunks(source, mode === 'idiom' ? 4 : 2);
+  return words.map((word, index) => {
+    const example = mode === 'vocab' ? `我今天學會了「${word}」這個詞語。` : '';
+    return {
+      id: index.toString(),
+      content: word,
+      subContent: '',
+      meaning: `「${word}」的意思（模擬資料）`,
+      example,
+      clozeContent: example ? generateVocabCloze(word, example, cloze) : '',
+      isNewParagraph: false,
+    };
+  });
+};
+
+/**
+ * A short tone in the same 24 kHz mono Int16 format Gemini TTS returns,
+ * so the audio pipeline can be exercised offline.
+ */
+const mockGenerateSpeech: AIProvider['generateSpeech'] = async (text) => {
+  const sampleRate = 24000;
+  const seconds = Math.min(3, 0.2 + Array.from(text).length * 0.1);
+  const samples = new Int16Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, i / 480, (samples.length - i) / 480);
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 8000 * fade);
+  }
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  speechVoice: 'tone',
+  isAvailable: () => true,
+  analyzeMaterial: mockAnalyzeMaterial,
+  // The mock cannot read photos; grading with it reports that nothing was found
+  recognizeHandwriting: async () => [],
+  generateSpeech: mockGenerateSpeech,
+  chatWithAssistant: async (history, currentMessage) =>
+    `（模擬助手）你問：「${currentMessage}」。你已經問了 ${history.filter(h => h.role === 'user').length + 1} 個問題，繼續加油！`,
+};
@@ -0,0 +1,69 @@
+import { Annotation, DictationItem, GridSize, PracticeGridSettings } from "../types";
+import { annotate, isHan } from "./romanization";
+
+// Side of one square in millimetres, so the grid prints at a fixed size
+export const GRID_CELL_MM: Record<GridSize, number> = {
+  small: 12,
+  medium: 16,
+  large: 20,
+};
+
+export const DEFAULT_GRID_SETTINGS: PracticeGridSettings = {
+  style: 'tian',
+  size: 'medium',
+  repeats: 5,
+};
+
+export const MAX_GRID_REPEATS = 20;
+
+// Width left on A4 (210mm) after the 10mm page margins and the 15mm worksheet padding
+const PRINTABLE_WIDTH_MM = 160;
+
+// Squares are indented under the item number
+export const GRID_INDENT_MM = 8;
+
+export interface GridLine {
+  char: string;
+  reading: string | null; // Only on the first line of each character
+  hasTracing: boolean; // First square shows the character in light grey
+  cells: number;
+}
+
+export interface GridBlock {
+  item: DictationItem;
+  lines: GridLine[];
+}
+
+export const cellsPerLine = (size: GridSize) => Math.floor((PRINTABLE_WIDTH_MM - GRID_INDENT_MM) / GRID_CELL_MM[size]);
+
+/**
+ * Lays out practice squares for every Chinese character of each item: one
+ * tracing square followed by the empty ones, wrapped into lines that fit
+ * the page width. Lines are the unit that may break across pages.
+ */
+export const buildPracticeGrid = (
+  items: DictationItem[],
+  annotation: Annotation,
+  settings: PracticeGridSettings
+): GridBlock[] => {
+  const perLine = cellsPerLine(settings.size);
+  const total = 1 + settings.repeats;
+
+  return items
+    .map(item => {
+      const lines: GridLine[] = [];
+      annotate(item.content, annotation, item).forEach(({ char, reading }) => {
+        if (!isHan(char)) return;
+        for (let start = 0; start < total; start += perLine) {
+          lines.push({
+            char,
+            reading: start === 0 ? reading : null,
+            hasTracing: start === 0,
+            cells: Math.min(perLine, total - start),
+          });
+        }
+      });
+      return { item, lines };
+    })
+    .filter(block => block.lines.length > 0);
+};
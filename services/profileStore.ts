@@ -0,0 +1,86 @@
+import { ChildProfile, ReviewCard, SavedList, SessionRecord } from "../types";
+import { createId, withStore, withTransaction } from "./db";
+
+// Each child has a profile; their lists, review cards and sessions are stored
+// with its id. Parents' recordings and cached speech are shared by the family.
+
+export type NewChildProfile = Omit<ChildProfile, 'id' | 'createdAt'>;
+
+export const PROFILE_AVATARS = ['🐣', '🐼', '🐯', '🦊', '🐰', '🐨', '🦄', '🐬', '🚀', '⚽'];
+
+export const GRADES = ['K3', 'P1', 'P2', 'P3', 'P4', 'P5', 'P6'];
+
+export const DEFAULT_PROFILE: NewChildProfile = {
+  name: '',
+  grade: 'P1',
+  avatar: PROFILE_AVATARS[0],
+  audioLanguage: 'cantonese',
+  mode: 'vocab',
+  difficulty: 'medium',
+};
+
+export const PROFILE_FILE_FORMAT = 'dictation-helper-profile';
+const PROFILE_FILE_VERSION = 1;
+
+type ProfileStore = 'lists' | 'reviews' | 'sessions';
+
+const getOwned = <T>(storeName: ProfileStore, profileId: string) =>
+  withStore<T[]>(storeName, 'readonly', store => store.index('profileId').getAll(profileId));
+
+/**
+ * Returns all profiles, oldest first.
+ */
+export const getProfiles = async (): Promise<ChildProfile[]> => {
+  const profiles = await withStore<ChildProfile[]>('profiles', 'readonly', store => store.getAll());
+  return profiles.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const createProfile = async (profile: NewChildProfile): Promise<ChildProfile> => {
+  const saved: ChildProfile = { ...profile, id: createId(), createdAt: Date.now() };
+  await withStore('profiles', 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+export const updateProfile = async (profile: ChildProfile): Promise<void> => {
+  await withStore('profiles', 'readwrite', store => store.put(profile));
+};
+
+/**
+ * Deletes the profile with everything saved for it, in one transaction so a
+ * failure never leaves records behind without their profile.
+ */
+export const deleteProfile = async (profileId: string): Promise<void> => {
+  const owned: ProfileStore[] = ['lists', 'reviews', 'sessions'];
+  await withTransaction([...owned, 'profiles'], 'readwrite', tx => {
+    owned.forEach(storeName => {
+      const store = tx.objectStore(storeName);
+      const keys = store.index('profileId').getAllKeys(profileId);
+      keys.onsuccess = () => keys.result.forEach(key => store.delete(key));
+    });
+    tx.objectStore('profiles').delete(profileId);
+  });
+};
+
+/**
+ * Everything stored for one child, as a JSON file the parent can keep.
+ */
+export const exportProfile = async (profile: ChildProfile): Promise<string> => {
+  const [lists, reviews, sessions] = await Promise.all([
+    getOwned<SavedList>('lists', profile.id),
+    getOwned<ReviewCard>('reviews', profile.id),
+    getOwned<SessionRecord>('sessions', profile.id),
+  ]);
+  return JSON.stringify(
+    {
+      format: PROFILE_FILE_FORMAT,
+      version: PROFILE_FILE_VERSION,
+      exportedAt: new Date().toISOString(),
+      profile,
+      lists,
+      reviews,
+      sessions,
+    },
+    null,
+    2
+  );
+};
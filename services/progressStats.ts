@@ -0,0 +1,144 @@
+import { DictationItem, DictationMode, SessionRecord } from "../types";
+import { isHan } from "./romanization";
+
+// Aggregates a profile's saved sessions for the parent dashboard.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Weeks start on Monday, as in Hong Kong school timetables
+const startOfWeek = (time: number) => {
+  const date = new Date(startOfDay(time));
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date.getTime();
+};
+
+// Revealing an item without typing (the child wrote on paper) grades every
+// character as missing, so those results say nothing about accuracy
+const answeredResults = (session: SessionRecord) => session.results.filter(result => result.answer);
+
+/**
+ * Whether any item of the session was actually answered.
+ */
+export const hasAnswers = (session: SessionRecord): boolean => answeredResults(session).length > 0;
+
+/**
+ * Share of characters written correctly in the answered items of a session, 0-1.
+ */
+export const sessionAccuracy = (session: SessionRecord): number => {
+  const results = answeredResults(session);
+  const total = results.reduce((sum, result) => sum + result.totalCount, 0);
+  const correct = results.reduce((sum, result) => sum + result.correctCount, 0);
+  return total ? correct / total : 0;
+};
+
+export interface TrendPoint {
+  time: number;
+  accuracy: number;
+}
+
+/**
+ * Accuracy of every answered session over time, one series per mode.
+ */
+export const accuracyTrends = (sessions: SessionRecord[]): Partial<Record<DictationMode, TrendPoint[]>> => {
+  const trends: Partial<Record<DictationMode, TrendPoint[]>> = {};
+  sessions.filter(hasAnswers).forEach(session => {
+    const points = trends[session.mode] || [];
+    points.push({ time: session.createdAt, accuracy: sessionAccuracy(session) });
+    trends[session.mode] = points;
+  });
+  Object.values(trends).forEach(points => points!.sort((a, b) => a.time - b.time));
+  return trends;
+};
+
+/**
+ * Sessions per week for the last `weeks` weeks, oldest first.
+ */
+export const weeklySessionCounts = (sessions: SessionRecord[], weeks: number = 8, now: number = Date.now()): { weekStart: number; count: number }[] => {
+  const thisWeek = startOfWeek(now);
+  const counts = Array.from({ length: weeks }, (_, idx) => {
+    const date = new Date(thisWeek);
+    date.setDate(date.getDate() - (weeks - 1 - idx) * 7);
+    return { weekStart: date.getTime(), count: 0 };
+  });
+  sessions.forEach(session => {
+    const week = counts.find(c => c.weekStart === startOfWeek(session.createdAt));
+    if (week) week.count++;
+  });
+  return counts;
+};
+
+/**
+ * Consecutive days with at least one session. The current streak still
+ * counts if today's practice has not happened yet.
+ */
+export const practiceStreaks = (sessions: SessionRecord[], now: number = Date.now()): { current: number; longest: number } => {
+  const days = Array.from(new Set(sessions.map(session => startOfDay(session.createdAt)))).sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, idx) => {
+    // Rounded because days around a daylight-saving change are not exactly DAY_MS long
+    run = idx > 0 && Math.round((day - days[idx - 1]) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const last = days[days.length - 1];
+  const today = startOfDay(now);
+  const current = last !== undefined && Math.round((today - last) / DAY_MS) <= 1 ? run : 0;
+  return { current, longest };
+};
+
+export interface MissedCharacter {
+  char: string;
+  wrongCount: number; // Times written wrong or left out
+  seenCount: number; // Times it was asked
+  items: { mode: DictationMode; item: DictationItem }[]; // Items it was missed in, for targeted practice
+}
+
+/**
+ * Characters the child most often gets wrong, from the per-character diffs
+ * of every session. Ranked by mistakes, then by error rate.
+ */
+export const mostMissedCharacters = (sessions: SessionRecord[], limit: number = 20): MissedCharacter[] => {
+  const stats = new Map<string, MissedCharacter>();
+
+  sessions.forEach(session => {
+    answeredResults(session).forEach(result => {
+      const item = session.items.find(i => i.id === result.itemId);
+      result.diff.forEach(d => {
+        if (!d.expected || !isHan(d.expected)) return;
+        const entry = stats.get(d.expected) || { char: d.expected, wrongCount: 0, seenCount: 0, items: [] };
+        entry.seenCount++;
+        if (d.status === 'wrong' || d.status === 'missing') {
+          entry.wrongCount++;
+          if (item && !entry.items.some(e => e.mode === session.mode && e.item.content === item.content)) {
+            entry.items.push({ mode: session.mode, item });
+          }
+        }
+        stats.set(d.expected, entry);
+      });
+    });
+  });
+
+  return Array.from(stats.values())
+    .filter(entry => entry.wrongCount > 0)
+    .sort((a, b) => b.wrongCount - a.wrongCount || b.wrongCount / b.seenCount - a.wrongCount / a.seenCount)
+    .slice(0, limit);
+};
+
+/**
+ * A practice list of the items a character was missed in, in the mode
+ * most of them came from. Null when none of the items were kept.
+ */
+export const buildTargetedPractice = (missed: MissedCharacter): { mode: DictationMode; items: DictationItem[] } | null => {
+  if (missed.items.length === 0) return null;
+  const byMode = new Map<DictationMode, DictationItem[]>();
+  missed.items.forEach(({ mode, item }) => byMode.set(mode, [...(byMode.get(mode) || []), item]));
+  const [mode, items] = Array.from(byMode).sort((a, b) => b[1].length - a[1].length)[0];
+  return { mode, items: items.map((item, idx) => ({ ...item, id: idx.toString() })) };
+};
@@ -0,0 +1,50 @@
+import { CharDiff, DictationItem, RobotEmotion } from "../types";
+import { diffCharacters, normalizeAnswer } from "./answerChecker";
+import { toSimplified } from "./chineseScript";
+
+// Scores 跟我讀: the child reads the item aloud and the recognised transcript
+// is aligned with the content character by character.
+
+export interface ReadAloudScore {
+  transcript: string;
+  diff: CharDiff[];
+  correctCount: number;
+  totalCount: number;
+  accuracy: number; // 0-1
+}
+
+/**
+ * Punctuation is never spoken, and a zh-CN recogniser answers in Simplified
+ * characters, so both sides are compared without punctuation in Simplified.
+ * The diff still shows the characters as written.
+ */
+export const scoreReading = (item: DictationItem, transcript: string): ReadAloudScore => {
+  const expected = normalizeAnswer(item.content, 'vocab');
+  const actual = normalizeAnswer(transcript, 'vocab');
+  const compared = diffCharacters(expected.map(toSimplified), actual.map(toSimplified));
+
+  let i = 0;
+  let j = 0;
+  const diff = compared.map((d): CharDiff => {
+    if (d.status === 'missing') return { ...d, expected: expected[i++] };
+    if (d.status === 'extra') return { ...d, actual: actual[j++] };
+    return { ...d, expected: expected[i++], actual: actual[j++] };
+  });
+  const correctCount = diff.filter(d => d.status === 'correct').length;
+
+  return {
+    transcript,
+    diff,
+    correctCount,
+    totalCount: expected.length,
+    accuracy: expected.length ? correctCount / Math.max(expected.length, actual.length) : 0,
+  };
+};
+
+export type ReadingReaction = Extract<RobotEmotion, 'happy' | 'idle' | 'sad'>;
+
+/**
+ * How the robot reacts to a reading.
+ */
+export const readingEmotion = (score: ReadAloudScore): ReadingReaction =>
+  score.accuracy >= 0.9 ? 'happy' : score.accuracy >= 0.5 ? 'idle' : 'sad';
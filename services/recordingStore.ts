@@ -0,0 +1,77 @@
+import { DictationMode, VoiceRecording } from "../types";
+import { withStore } from "./db";
+import { getAudioContext } from "./audioUtils";
+
+// A parent's own reading of an item, recorded in the browser with MediaRecorder.
+// Recordings are keyed by content like review cards, so every list with the
+// same word reuses them.
+
+type Language = 'mandarin' | 'cantonese';
+
+export const recordingKey = (mode: DictationMode, language: Language, content: string) =>
+  `${mode}:${language}:${content.trim()}`;
+
+export const getRecording = async (key: string): Promise<VoiceRecording | null> => {
+  try {
+    return (await withStore<VoiceRecording | undefined>('recordings', 'readonly', store => store.get(key))) || null;
+  } catch (error) {
+    console.error("Error loading recording:", error);
+    return null;
+  }
+};
+
+export const saveRecording = async (recording: VoiceRecording): Promise<void> => {
+  await withStore('recordings', 'readwrite', store => store.put(recording));
+};
+
+export const deleteRecording = async (key: string): Promise<void> => {
+  await withStore('recordings', 'readwrite', store => store.delete(key));
+};
+
+export interface ActiveRecording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+/**
+ * Starts recording from the microphone. Rejects when permission is denied
+ * or the browser has no MediaRecorder.
+ */
+export const startRecording = async (): Promise<ActiveRecording> => {
+  if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+    throw new Error('MediaRecorder is not supported');
+  }
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () =>
+      new Promise(resolve => {
+        recorder.onstop = () => {
+          release();
+          resolve(new Blob(chunks, { type: recorder.mimeType }));
+        };
+        recorder.stop();
+      }),
+    cancel: () => {
+      recorder.onstop = release;
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
+
+/**
+ * Builds a recording from a freshly recorded blob, untrimmed.
+ * MediaRecorder files often report no duration, so it is measured by decoding.
+ */
+export const createRecording = async (key: string, audio: Blob): Promise<VoiceRecording> => {
+  const buffer = await getAudioContext().decodeAudioData(await audio.arrayBuffer());
+  const durationMs = Math.round(buffer.duration * 1000);
+  return { key, audio, durationMs, trimStartMs: 0, trimEndMs: durationMs, createdAt: Date.now() };
+};
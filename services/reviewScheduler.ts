@@ -0,0 +1,96 @@
+import { DictationItem, DictationMode, ItemResult, ReviewCard } from "../types";
+import { withStore } from "./db";
+
+// Leitner boxes: days until the next review for boxes 1-5.
+// A correct answer moves a card up one box; a wrong one sends it back to box 1.
+const BOX_INTERVALS_DAYS = [1, 2, 4, 8, 16];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const reviewKey = (profileId: string, mode: DictationMode, content: string) => `${profileId}:${mode}:${content.trim()}`;
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// Due at the start of the day, so anything scheduled for today shows up all day
+const dueAfter = (box: number, now: number) => startOfDay(now) + BOX_INTERVALS_DAYS[box - 1] * DAY_MS;
+
+const getCard = (key: string) => withStore<ReviewCard | undefined>('reviews', 'readonly', store => store.get(key));
+
+/**
+ * Updates the schedule after the child answers an item.
+ * Only wrong answers create cards; correct answers promote cards that are due.
+ */
+export const recordReviewResult = async (
+  profileId: string,
+  item: DictationItem,
+  mode: DictationMode,
+  result: ItemResult,
+  now: number = Date.now()
+): Promise<void> => {
+  // Revealing without answering says nothing about what the child knows
+  if (!result.answer) return;
+
+  const key = reviewKey(profileId, mode, item.content);
+  const existing = await getCard(key);
+
+  if (!result.isCorrect) {
+    const card: ReviewCard = {
+      key,
+      profileId,
+      mode,
+      item: { ...item, id: key },
+      box: 1,
+      dueAt: dueAfter(1, now),
+      lastReviewedAt: now,
+      wrongCount: (existing?.wrongCount || 0) + 1,
+      correctCount: existing?.correctCount || 0,
+    };
+    await withStore('reviews', 'readwrite', store => store.put(card));
+    return;
+  }
+
+  if (!existing || existing.dueAt > now) return;
+
+  if (existing.box >= BOX_INTERVALS_DAYS.length) {
+    // Correct from the last box: the item is learnt
+    await withStore('reviews', 'readwrite', store => store.delete(key));
+    return;
+  }
+
+  const box = existing.box + 1;
+  await withStore('reviews', 'readwrite', store =>
+    store.put({
+      ...existing,
+      box,
+      dueAt: dueAfter(box, now),
+      lastReviewedAt: now,
+      correctCount: existing.correctCount + 1,
+    })
+  );
+};
+
+/**
+ * Returns every card of the profile due by the given time, most overdue first.
+ */
+export const getDueCards = async (profileId: string, now: number = Date.now()): Promise<ReviewCard[]> => {
+  const cards = await withStore<ReviewCard[]>('reviews', 'readonly', store =>
+    store.index('dueAt').getAll(IDBKeyRange.upperBound(now))
+  );
+  return cards.filter(card => card.profileId === profileId).sort((a, b) => a.dueAt - b.dueAt);
+};
+
+/**
+ * Groups due cards into one session per mode, mixing items from all lists.
+ */
+export const buildReviewSessions = (cards: ReviewCard[]): { mode: DictationMode; items: DictationItem[] }[] => {
+  const byMode = new Map<DictationMode, DictationItem[]>();
+  cards.forEach(card => {
+    const items = byMode.get(card.mode) || [];
+    items.push({ ...card.item, id: items.length.toString() });
+    byMode.set(card.mode, items);
+  });
+  return Array.from(byMode, ([mode, items]) => ({ mode, items }));
+};
@@ -0,0 +1,245 @@
+import { Annotation, DictationItem, DictationMode } from "../types";
+import { toTraditional } from "./chineseScript";
+import { JYUTPING_SYLLABLES, JYUTPING_WORDS } from "./data/jyutping";
+import { PINYIN_SYLLABLES, PINYIN_WORDS } from "./data/pinyin";
+
+interface ReadingTable {
+  chars: Map<string, string>;
+  words: Record<string, string>;
+  longestWord: number;
+}
+
+const buildTable = (syllables: Record<string, string>, words: Record<string, string>): ReadingTable => {
+  const chars = new Map<string, string>();
+  Object.entries(syllables).forEach(([syllable, list]) =>
+    Array.from(list).forEach(char => {
+      if (!chars.has(char)) chars.set(char, syllable);
+    })
+  );
+  const longestWord = Math.max(...Object.keys(words).map(word => Array.from(word).length));
+  return { chars, words, longestWord };
+};
+
+const JYUTPING = buildTable(JYUTPING_SYLLABLES, JYUTPING_WORDS);
+const PINYIN = buildTable(PINYIN_SYLLABLES, PINYIN_WORDS);
+
+const HAN = /\p{Script=Han}/u;
+
+export const isHan = (char: string) => HAN.test(char);
+
+// Longest word with its own reading starting at chars[start]
+const matchWord = (table: ReadingTable, chars: string[], start: number): string | null => {
+  for (let length = Math.min(table.longestWord, chars.length - start); length >= 2; length--) {
+    const word = chars.slice(start, start + length).join('');
+    if (table.words[word]) return word;
+  }
+  return null;
+};
+
+// The tables only hold Traditional characters, so text with characters they
+// lack (Simplified 东, 这) is read through its Traditional form. Traditional
+// text is left alone, so conversion never picks a different polyphone.
+const readableText = (table: ReadingTable, text: string): string => {
+  if (!Array.from(text).some(char => isHan(char) && !table.chars.has(char))) return text;
+  const traditional = toTraditional(text);
+  return Array.from(traditional).length === Array.from(text).length ? traditional : text;
+};
+
+/**
+ * One reading per Chinese character of the text (null when the character is
+ * not in the table). Whole-word readings win over single characters, so
+ * polyphonic characters get the reading the word calls for.
+ */
+const lookupReadings = (table: ReadingTable, text: string): (string | null)[] => {
+  const chars = Array.from(readableText(table, text));
+  const readings: (string | null)[] = [];
+  let i = 0;
+  while (i < chars.length) {
+    const word = matchWord(table, chars, i);
+    if (word) {
+      readings.push(...table.words[word].split(' '));
+      i += Array.from(word).length;
+      continue;
+    }
+    const char = chars[i++];
+    if (isHan(char)) readings.push(table.chars.get(char) || null);
+  }
+  return readings;
+};
+
+/**
+ * Looks up the Jyutping for Chinese text from the bundled table, preferring
+ * whole-word readings for polyphonic characters. Returns an empty string if
+ * any character is missing, so a partial reading is never shown.
+ */
+export const toJyutping = (text: string): string => {
+  const readings = lookupReadings(JYUTPING, text);
+  return readings.includes(null) ? '' : readings.join(' ');
+};
+
+/**
+ * Table readings of a single character, ignoring the words around it.
+ */
+export const charReadings = (char: string): { jyutping: string | null; pinyin: string | null } => ({
+  jyutping: JYUTPING.chars.get(readableText(JYUTPING, char)) || null,
+  pinyin: PINYIN.chars.get(readableText(PINYIN, char)) || null,
+});
+
+/**
+ * Fills in missing Jyutping for words and idioms from the local table.
+ */
+export const fillJyutping = (items: DictationItem[], mode: DictationMode): DictationItem[] => {
+  if (mode === 'paragraph') return items;
+  return items.map(item => (item.jyutping ? item : { ...item, jyutping: toJyutping(item.content) }));
+};
+
+/**
+ * The annotation a session starts with, following its dictation language.
+ */
+export const defaultAnnotation = (language: 'mandarin' | 'cantonese'): Annotation =>
+  language === 'cantonese' ? 'jyutping' : 'pinyin';
+
+// --- Pinyin spelling ---
+
+const TONE_MARKS: Record<string, string> = {
+  a: 'āáǎà', e: 'ēéěè', i: 'īíǐì', o: 'ōóǒò', u: 'ūúǔù', ü: 'ǖǘǚǜ',
+};
+
+const UNMARKED = new Map<string, [string, number]>();
+Object.entries(TONE_MARKS).forEach(([vowel, marks]) =>
+  Array.from(marks).forEach((mark, idx) => UNMARKED.set(mark, [vowel, idx + 1]))
+);
+
+/**
+ * Turns "lv4" into "lǜ". The mark goes on a or e, on the o of "ou",
+ * and otherwise on the last vowel.
+ */
+export const markPinyin = (numbered: string): string => {
+  const match = numbered.match(/^([a-zü]+)([1-5])$/);
+  if (!match) return numbered;
+  const syllable = match[1].replace(/v/g, 'ü');
+  const tone = Number(match[2]);
+  if (tone === 5) return syllable;
+
+  let index = syllable.search(/[ae]/);
+  if (index < 0) index = syllable.indexOf('ou');
+  if (index < 0) {
+    const vowels = Array.from(syllable.matchAll(/[iouü]/g));
+    if (vowels.length === 0) return syllable;
+    index = vowels[vowels.length - 1].index!;
+  }
+  return syllable.slice(0, index) + TONE_MARKS[syllable[index]][tone - 1] + syllable.slice(index + 1);
+};
+
+/**
+ * Turns marked Pinyin such as "lǜ" back into "lv4", so Pinyin from the
+ * model can be converted to Zhuyin.
+ */
+export const numberPinyin = (marked: string): string => {
+  let tone = 5;
+  const plain = Array.from(marked.toLowerCase())
+    .map(char => {
+      const unmarked = UNMARKED.get(char);
+      if (!unmarked) return char;
+      tone = unmarked[1];
+      return unmarked[0];
+    })
+    .join('')
+    .replace(/ü/g, 'v');
+  if (/[1-5]$/.test(plain)) return plain;
+  return plain + tone;
+};
+
+// --- Zhuyin (Bopomofo) ---
+
+const ZHUYIN_INITIALS: [string, string][] = [
+  ['zh', 'ㄓ'], ['ch', 'ㄔ'], ['sh', 'ㄕ'],
+  ['b', 'ㄅ'], ['p', 'ㄆ'], ['m', 'ㄇ'], ['f', 'ㄈ'], ['d', 'ㄉ'], ['t', 'ㄊ'], ['n', 'ㄋ'], ['l', 'ㄌ'],
+  ['g', 'ㄍ'], ['k', 'ㄎ'], ['h', 'ㄏ'], ['j', 'ㄐ'], ['q', 'ㄑ'], ['x', 'ㄒ'],
+  ['r', 'ㄖ'], ['z', 'ㄗ'], ['c', 'ㄘ'], ['s', 'ㄙ'],
+];
+
+const ZHUYIN_FINALS: Record<string, string> = {
+  a: 'ㄚ', o: 'ㄛ', e: 'ㄜ', ai: 'ㄞ', ei: 'ㄟ', ao: 'ㄠ', ou: 'ㄡ',
+  an: 'ㄢ', en: 'ㄣ', ang: 'ㄤ', eng: 'ㄥ', er: 'ㄦ', ong: 'ㄨㄥ',
+  i: 'ㄧ', ia: 'ㄧㄚ', ie: 'ㄧㄝ', iao: 'ㄧㄠ', iu: 'ㄧㄡ', iou: 'ㄧㄡ', ian: 'ㄧㄢ', in: 'ㄧㄣ', iang: 'ㄧㄤ', ing: 'ㄧㄥ', iong: 'ㄩㄥ',
+  u: 'ㄨ', ua: 'ㄨㄚ', uo: 'ㄨㄛ', uai: 'ㄨㄞ', ui: 'ㄨㄟ', uei: 'ㄨㄟ', uan: 'ㄨㄢ', un: 'ㄨㄣ', uen: 'ㄨㄣ', uang: 'ㄨㄤ', ueng: 'ㄨㄥ',
+  v: 'ㄩ', ve: 'ㄩㄝ', van: 'ㄩㄢ', vn: 'ㄩㄣ',
+};
+
+const ZHUYIN_TONES = ['', 'ˊ', 'ˇ', 'ˋ'];
+
+// Rewrites the y/w spellings and the ü written as u after j, q, x and y
+const normalizeFinal = (initial: string, final: string): string => {
+  if (initial === 'y') {
+    if (final.startsWith('u')) return 'v' + final.slice(1);
+    return final.startsWith('i') ? final : 'i' + final;
+  }
+  if (initial === 'w') return final.startsWith('u') ? final : 'u' + final;
+  if (['j', 'q', 'x'].includes(initial) && final.startsWith('u')) return 'v' + final.slice(1);
+  if (final === 'ue') return 've';
+  return final;
+};
+
+/**
+ * Converts one numbered Pinyin syllable (e.g. "zhong1") to Zhuyin.
+ */
+export const pinyinToZhuyin = (numbered: string): string => {
+  const match = numbered.match(/^([a-zv]+)([1-5])$/);
+  if (!match) return numbered;
+  const [, syllable, toneDigit] = match;
+  const tone = Number(toneDigit);
+
+  const initialEntry = ZHUYIN_INITIALS.find(([latin]) => syllable.startsWith(latin));
+  const initial = initialEntry ? initialEntry[0] : /^[yw]/.test(syllable) ? syllable[0] : '';
+  const final = normalizeFinal(initial, syllable.slice(initial.length));
+
+  // zhi, chi, shi, ri, zi, ci, si are written with the initial alone
+  let zhuyin = initialEntry ? initialEntry[1] : '';
+  if (!(final === 'i' && /^(zh|ch|sh|r|z|c|s)$/.test(initial))) {
+    const finalZhuyin = ZHUYIN_FINALS[final];
+    if (!finalZhuyin) return numbered;
+    zhuyin += finalZhuyin;
+  }
+  return tone === 5 ? '˙' + zhuyin : zhuyin + ZHUYIN_TONES[tone - 1];
+};
+
+// --- Per-character annotation ---
+
+export interface AnnotatedChar {
+  char: string;
+  reading: string | null; // Null for punctuation and characters without a known reading
+}
+
+// Readings typed into the item (by the model or the parent), when they line up one per character
+const itemReadings = (item: DictationItem | undefined, text: string, annotation: Annotation, hanCount: number) => {
+  if (!item || item.content !== text) return null;
+  const source = annotation === 'jyutping' ? item.jyutping : item.subContent;
+  const readings = (source || '').trim().split(/[\s'’]+/).filter(Boolean);
+  if (readings.length !== hanCount) return null;
+  return annotation === 'jyutping' ? readings : readings.map(numberPinyin);
+};
+
+/**
+ * Pairs every character of the text with its reading in the chosen system.
+ * Readings stored on the item are preferred, since they may have been
+ * corrected by a parent; the bundled tables fill in the rest.
+ */
+export const annotate = (text: string, annotation: Annotation, item?: DictationItem): AnnotatedChar[] => {
+  const chars = Array.from(text);
+  if (annotation === 'none') return chars.map(char => ({ char, reading: null }));
+
+  const hanCount = chars.filter(isHan).length;
+  const table = annotation === 'jyutping' ? JYUTPING : PINYIN;
+  const readings = itemReadings(item, text, annotation, hanCount) || lookupReadings(table, text);
+
+  let cursor = 0;
+  return chars.map(char => {
+    if (!isHan(char)) return { char, reading: null };
+    const reading = readings[cursor++];
+    if (!reading) return { char, reading: null };
+    if (annotation === 'pinyin') return { char, reading: markPinyin(reading) };
+    if (annotation === 'zhuyin') return { char, reading: pinyinToZhuyin(reading) };
+    return { char, reading };
+  });
+};
@@ -0,0 +1,21 @@
+import { SessionRecord } from "../types";
+import { createId, withStore } from "./db";
+
+export type NewSessionRecord = Omit<SessionRecord, 'id' | 'createdAt'>;
+
+/**
+ * Keeps a finished dictation so the child's progress can be looked back on.
+ */
+export const saveSession = async (session: NewSessionRecord): Promise<SessionRecord> => {
+  const saved: SessionRecord = { ...session, id: createId(), createdAt: Date.now() };
+  await withStore('sessions', 'readwrite', store => store.put(saved));
+  return saved;
+};
+
+/**
+ * Returns the profile's sessions, oldest first.
+ */
+export const getSessions = async (profileId: string): Promise<SessionRecord[]> => {
+  const sessions = await withStore<SessionRecord[]>('sessions', 'readonly', store => store.index('profileId').getAll(profileId));
+  return sessions.sort((a, b) => a.createdAt - b.createdAt);
+};
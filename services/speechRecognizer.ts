@@ -0,0 +1,95 @@
+// Speech-to-text behind a small interface, so the browser's recogniser can be
+// swapped for a scripted fake in automated tests.
+
+// Define SpeechRecognition types for TypeScript
+interface IWindow extends Window {
+  webkitSpeechRecognition: any;
+  SpeechRecognition: any;
+}
+
+export interface RecognitionSession {
+  result: Promise<string>; // The final transcript; empty when nothing was heard
+  stop: () => void; // Stops listening and resolves with what was heard so far
+}
+
+export interface SpeechRecognizer {
+  isAvailable: () => boolean;
+  listen: (lang: string, onInterim?: (transcript: string) => void) => RecognitionSession;
+}
+
+const browserRecognitionClass = () =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as IWindow).SpeechRecognition || (window as unknown as IWindow).webkitSpeechRecognition;
+
+export const browserRecognizer: SpeechRecognizer = {
+  isAvailable: () => !!browserRecognitionClass(),
+  listen: (lang, onInterim) => {
+    const SpeechRecognition = browserRecognitionClass();
+    const recognition = new SpeechRecognition();
+    recognition.lang = lang;
+    recognition.continuous = false;
+    recognition.interimResults = true;
+
+    let transcript = '';
+    const result = new Promise<string>((resolve, reject) => {
+      recognition.onresult = (event: any) => {
+        transcript = Array.from(event.results)
+          .map((result: any) => result[0].transcript)
+          .join('');
+        onInterim?.(transcript);
+      };
+      recognition.onerror = (event: any) => {
+        // Silence and stopping early are normal endings, not failures
+        if (event.error === 'no-speech' || event.error === 'aborted') resolve(transcript);
+        else reject(new Error(event.error));
+      };
+      recognition.onend = () => resolve(transcript);
+    });
+
+    recognition.start();
+    return { result, stop: () => recognition.stop() };
+  },
+};
+
+/**
+ * A recogniser that "hears" the given transcripts in order, one per listen().
+ * Dev-only stub for trying read-aloud scoring without a microphone.
+ */
+export const createScriptedRecognizer = (transcripts: string[], delayMs: number = 0): SpeechRecognizer => {
+  const queue = [...transcripts];
+  return {
+    isAvailable: () => true,
+    listen: (lang, onInterim) => {
+      const transcript = queue.shift() ?? '';
+      let finish: (() => void) | null = null;
+      const result = new Promise<string>(resolve => {
+        const timer = setTimeout(() => {
+          onInterim?.(transcript);
+          resolve(transcript);
+        }, delayMs);
+        finish = () => {
+          clearTimeout(timer);
+          resolve('');
+        };
+      });
+      return { result, stop: () => finish?.() };
+    },
+  };
+};
+
+let activeRecognizer: SpeechRecognizer = browserRecognizer;
+
+export const getSpeechRecognizer = (): SpeechRecognizer => activeRecognizer;
+
+/**
+ * Overrides the recogniser, e.g. with the createScriptedRecognizer stub while debugging.
+ */
+export const setSpeechRecognizer = (recognizer: SpeechRecognizer | null) => {
+  activeRecognizer = recognizer || browserRecognizer;
+};
+
+/**
+ * The recognition language for a dictation language.
+ */
+export const recognitionLang = (language: 'mandarin' | 'cantonese') => (language === 'cantonese' ? 'zh-HK' : 'zh-CN');
@@ -0,0 +1,57 @@
+// Sentence-ending punctuation, optionally followed by closing quotes/brackets
+const SENTENCE_END = /[^。！？!?；;…]*(?:[。！？!?；;]+|…+)[」』”’）)]*|[^。！？!?；;…]+$/g;
+
+/**
+ * Splits Chinese text into sentences, keeping the punctuation with each sentence.
+ */
+export const splitSentences = (text: string): string[] =>
+  (text.match(SENTENCE_END) || []).map(s => s.trim()).filter(Boolean);
+
+/**
+ * Splits a single sentence at its first full-width comma, for sentences
+ * that cannot be split any further at sentence punctuation.
+ */
+export const splitAtComma = (text: string): string[] => {
+  const index = text.search(/[，,]/);
+  if (index < 0 || index === text.length - 1) return [text];
+  return [text.slice(0, index + 1), text.slice(index + 1)].map(s => s.trim()).filter(Boolean);
+};
+
+export interface WordSegment {
+  text: string;
+  isWord: boolean; // False for punctuation and whitespace
+}
+
+let segmenter: Intl.Segmenter | null | undefined;
+
+/**
+ * Splits Chinese text into words with Intl.Segmenter. Browsers without it
+ * fall back to one segment per character.
+ */
+export const segmentWords = (text: string): WordSegment[] => {
+  if (segmenter === undefined) {
+    segmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+      ? new Intl.Segmenter('zh-HK', { granularity: 'word' })
+      : null;
+  }
+  if (!segmenter) {
+    return Array.from(text).map(char => ({ text: char, isWord: !/[\s\p{P}\p{S}]/u.test(char) }));
+  }
+  return Array.from(segmenter.segment(text), s => ({ text: s.segment, isWord: !!s.isWordLike }));
+};
+
+/**
+ * Splits a typed list of words such as "蘋果、果汁" at any common separator.
+ * Empty entries are kept so the text can be edited and joined back.
+ */
+export const splitWordList = (text: string): string[] => text.split(/[、,，;；\s]+/);
+
+/**
+ * Splits pasted text into paragraphs at blank lines. Line breaks inside a
+ * paragraph are only from copying and are removed.
+ */
+export const splitParagraphs = (text: string): string[] =>
+  text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, '').trim())
+    .filter(Boolean);
@@ -1,14 +1,144 @@
 
-export type DictationMode = 'paragraph' | 'vocab' | 'idiom';
+export type DictationMode = 'paragraph' | 'vocab' | 'idiom' | 'character';
+
+export type ClozeDifficulty = 'easy' | 'medium' | 'hard' | 'custom';
+
+// Word classes that can be left visible in a cloze
+export type WordClass = 'particle' | 'pronoun' | 'connective' | 'number';
+
+export interface ClozeSettings {
+  difficulty: ClozeDifficulty;
+  customRatio: number; // Share of content words blanked (0-1), used for 'custom'
+  keepWordClasses: WordClass[];
+}
+
+// Reading shown above each character; 'zhuyin' is 注音符號
+export type Annotation = 'none' | 'jyutping' | 'pinyin' | 'zhuyin';
+
+export type ChineseScript = 'traditional' | 'simplified';
+
+// 'standard' is the mode's own layout (cloze, sentence completion or idiom table)
+export type WorksheetLayout = 'standard' | 'practiceGrid' | 'correction';
+
+export type GridStyle = 'tian' | 'mi'; // 田字格 or 米字格
+
+export type GridSize = 'small' | 'medium' | 'large';
+
+export interface PracticeGridSettings {
+  style: GridStyle;
+  size: GridSize;
+  repeats: number; // Empty boxes after the tracing character
+}
+
+// Where dictation audio comes from; 'recording' is a parent's own recording
+export type SpeechEngineId = 'browser' | 'gemini' | 'recording';
+
+export interface AudioSettings {
+  engine: Exclude<SpeechEngineId, 'recording'>; // Recordings are used automatically when an item has one
+  voiceURI?: string; // Browser voice, when engine is 'browser'
+}
+
+export interface ExamSettings {
+  repeats: number; // Times each item (or phrase) is read
+  secondsPerChar: number; // Writing time given per Chinese character
+  readPunctuation: boolean; // Say 逗號, 句號... after each phrase
+}
+
+export type ConfusableKind = 'shape' | 'sound'; // 形近字 or 同音字
+
+export interface PlantedError {
+  index: number; // Index into Array.from(sentence)
+  position: number; // 1-based, counting Chinese characters only, as printed in the answer key
+  wrong: string;
+  correct: string;
+  kind: ConfusableKind;
+}
+
+// A 改錯字 question: a sentence from the list with some characters swapped
+export interface CorrectionQuestion {
+  itemId: string;
+  sentence: string;
+  errors: PlantedError[];
+}
 
 export interface DictationItem {
   id: string;
   content: string; // The main text (Sentence, Word, or Idiom)
   subContent?: string; // Pinyin or Meaning
+  jyutping?: string; // Cantonese romanisation with tone numbers, e.g. "ping4 gwo2"
   meaning?: string; // Translation or detailed meaning
   example?: string; // Full example sentence (for Vocab mode)
   clozeContent?: string; // Content with blanks for worksheets
   isNewParagraph?: boolean; // Indicates if this item starts a new paragraph
+  // Character mode (生字)
+  radical?: string; // 部首, e.g. "艹"
+  strokeCount?: number; // Total strokes
+  commonWords?: string[]; // Common words using the character
+  cueWord?: string; // Word read with the character to tell it apart, e.g. "蘋果" for "蘋果嘅蘋"
+}
+
+// One child using the app; lists, reviews and sessions belong to a profile
+export interface ChildProfile {
+  id: string;
+  name: string;
+  grade: string; // e.g. "P3"
+  avatar: string; // An emoji
+  audioLanguage: 'mandarin' | 'cantonese';
+  mode: DictationMode; // Preselected in Setup
+  difficulty: Exclude<ClozeDifficulty, 'custom'>; // Default cloze difficulty
+  createdAt: number;
+}
+
+export interface SavedList {
+  id: string;
+  profileId: string;
+  title: string;
+  mode: DictationMode;
+  audioLanguage: 'mandarin' | 'cantonese';
+  items: DictationItem[];
+  tags: string[]; // e.g. "P3", "第五課"
+  thumbnails: string[]; // Small JPEG data URLs of the source pages
+  createdAt: number;
+}
+
+export interface ReviewCard {
+  key: string; // `${profileId}:${mode}:${content}`, shared across lists
+  profileId: string;
+  mode: DictationMode;
+  item: DictationItem;
+  box: number; // Leitner box, 1 = review tomorrow
+  dueAt: number;
+  lastReviewedAt: number;
+  wrongCount: number;
+  correctCount: number;
+}
+
+// A finished practice or photo-graded dictation
+export interface SessionRecord {
+  id: string;
+  profileId: string;
+  mode: DictationMode;
+  audioLanguage: 'mandarin' | 'cantonese';
+  items: DictationItem[];
+  results: ItemResult[];
+  source: 'practice' | 'photo';
+  createdAt: number;
+}
+
+export interface CachedAudio {
+  key: string; // See audioCacheKey
+  audio: string; // Base64 24 kHz mono PCM, as returned by generateSpeech
+  bytes: number;
+  usedAt: number; // For least-recently-used eviction
+}
+
+export interface VoiceRecording {
+  key: string; // `${mode}:${language}:${content}`, shared across lists
+  audio: Blob; // As recorded by MediaRecorder, never re-encoded
+  durationMs: number;
+  trimStartMs: number; // Playback skips what is outside the trimmed range
+  trimEndMs: number;
+  createdAt: number;
 }
 
 export interface ChatMessage {
@@ -19,12 +149,70 @@ export interface ChatMessage {
   isAudio?: boolean;
 }
 
+export type CharDiffStatus = 'correct' | 'wrong' | 'missing' | 'extra';
+
+export interface CharDiff {
+  status: CharDiffStatus;
+  expected?: string; // Character from DictationItem.content
+  actual?: string; // Character the child wrote
+}
+
+export interface ItemResult {
+  itemId: string;
+  answer: string; // What the child typed
+  diff: CharDiff[];
+  correctCount: number;
+  totalCount: number; // Number of characters in the expected content
+  isCorrect: boolean;
+  playCount: number; // Times the audio was played before answering
+  timeSpentMs: number; // Time from showing the item to answering
+}
+
+// Likely cause of a wrong character, see services/mistakeClassifier.ts
+export type MistakeKind = 'homophone' | 'lookalike' | 'radical' | 'omission' | 'insertion' | 'order' | 'other';
+
+export interface Mistake {
+  kind: MistakeKind;
+  positions: number[]; // Indexes into ItemResult.diff; two for a swapped pair
+  expected: string; // Empty for an insertion
+  actual: string; // Empty for an omission
+}
+
+// Bounding box normalised to 0-1000: [ymin, xmin, ymax, xmax]
+export type CharBox = [number, number, number, number];
+
+export interface RecognizedChar {
+  char: string;
+  box?: CharBox;
+}
+
+export interface RecognizedLine {
+  text: string;
+  chars: RecognizedChar[];
+}
+
+export interface GradedItem {
+  result: ItemResult;
+  boxes: (CharBox | null)[]; // Aligned with result.diff; null where nothing was written
+}
+
+export interface PhotoGrade {
+  items: GradedItem[];
+  lines: RecognizedLine[];
+}
+
 export type RobotEmotion = 'idle' | 'happy' | 'thinking' | 'speaking' | 'sad';
 
 export interface AppState {
-  view: 'setup' | 'practice' | 'worksheet' | 'report';
+  view: 'profiles' | 'setup' | 'dashboard' | 'practice' | 'worksheet' | 'report' | 'grading' | 'exam';
+  profile: ChildProfile | null; // Chosen on the profiles screen
+  examFrom: 'practice' | 'worksheet'; // Where leaving the mock exam returns to
   mode: DictationMode;
   audioLanguage: 'mandarin' | 'cantonese';
+  annotation: Annotation;
+  audio: AudioSettings;
+  cloze: ClozeSettings; // Chosen in Setup, or the profile's difficulty; the worksheet starts from it
   dictationList: DictationItem[];
   currentIndex: number;
+  results: Record<string, ItemResult>; // Keyed by DictationItem.id, kept for the session
 }